@@ -7,8 +7,19 @@ import http from 'http';
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import * as userValidator from '../server/user/middleware';
+import * as deletionValidator from '../server/deletion/middleware';
+import * as sessionValidator from '../server/session/middleware';
+import * as tokenValidator from '../server/token/middleware';
+import * as migrationValidator from '../server/migration/middleware';
 import {userRouter} from '../server/user/router';
 import {freetRouter} from '../server/freet/router';
+import {commentRouter} from '../server/comments/router';
+import {moderationRouter} from '../server/moderation/router';
+import {notificationRouter} from '../server/notification/router';
+import {messageRouter} from '../server/messages/router';
+import {tagRouter} from '../server/tag/router';
+import {searchRouter} from '../server/search/router';
+import {draftRouter} from '../server/draft/router';
 import MongoStore from 'connect-mongo';
 
 // Load environmental variables
@@ -41,6 +52,10 @@ const app = express();
 // Set the port
 app.set('port', process.env.PORT || 3000);
 
+// Vercel's proxy adds the client's address to X-Forwarded-For, which req.ip needs for throttling.
+// Only that one hop is trusted, since clients can put anything they like earlier in the header.
+app.set('trust proxy', 1);
+
 // Log requests in the terminal
 app.use(logger('dev'));
 
@@ -50,26 +65,49 @@ app.use(express.json());
 // Parse incoming requests with urlencoded payloads ('content-type: application/x-www-form-urlencoded' in header)
 app.use(express.urlencoded({extended: false}));
 
+// Bring existing documents up to date before anything reads them
+app.use(migrationValidator.runPendingMigrations);
+
+// Sign in requests that carry a personal access token; these skip the cookie session
+app.use(tokenValidator.authenticateBearerToken);
+
+// Keep sessions in MongoDB; the session routes reach the store through app.locals
+const sessionStore = MongoStore.create({
+  clientPromise: client,
+  dbName: 'sessions',
+  autoRemove: 'interval',
+  autoRemoveInterval: 10 // Minutes
+});
+app.locals.sessionStore = sessionStore;
+
 // Initialize cookie session
 // https://www.npmjs.com/package/express-session#options
 app.use(session({
   secret: '61040', // Should generate a real secret
   resave: true,
   saveUninitialized: false,
-  store: MongoStore.create({
-    clientPromise: client,
-    dbName: 'sessions',
-    autoRemove: 'interval',
-    autoRemoveInterval: 10 // Minutes
-  })
+  store: sessionStore
 }));
 
+// Purge accounts whose deletion grace period has run out
+app.use(deletionValidator.purgeExpiredAccounts);
+
 // This makes sure that if a user is logged in, they still exist in the database
 app.use(userValidator.isCurrentSessionUserExists);
 
+// Keep track of the sessions users are signed in on
+app.use(sessionValidator.trackSession);
+
 // Add routers from routes folder
 app.use('/api/users', userRouter);
 app.use('/api/freets', freetRouter);
+app.use('/api/comments', commentRouter);
+app.use('/api/moderation', moderationRouter);
+app.use('/api/notifications', notificationRouter);
+app.use('/api/messages', messageRouter);
+app.use('/api/tags', tagRouter);
+app.use('/api/search', searchRouter);
+app.use('/api/drafts', draftRouter);
 
 // Catch all the other routes and display error message
 app.all('*', (req: Request, res: Response) => {
@@ -5,6 +5,11 @@ import AccountPage from './components/Account/AccountPage.vue';
 import LoginPage from './components/Login/LoginPage.vue';
 import NotFound from './NotFound.vue';
 import FollowingPage from './components/Following/FollowingPage.vue';
+import ProfilePage from './components/Profile/ProfilePage.vue';
+import ModerationPage from './components/Moderation/ModerationPage.vue';
+import MessagesPage from './components/Messages/MessagesPage.vue';
+import TagPage from './components/Tag/TagPage.vue';
+import SearchPage from './components/Search/SearchPage.vue';
 
 Vue.use(VueRouter);
 
@@ -13,6 +18,11 @@ const routes = [
   {path: '/account', name: 'Account', component: AccountPage},
   {path: '/login', name: 'Login', component: LoginPage},
   {path: '/following', name: 'Following', component: FollowingPage},
+  {path: '/users/:username', name: 'Profile', component: ProfilePage},
+  {path: '/moderation', name: 'Moderation', component: ModerationPage},
+  {path: '/messages', name: 'Messages', component: MessagesPage},
+  {path: '/tags/:tag', name: 'Tag', component: TagPage},
+  {path: '/search', name: 'Search', component: SearchPage},
   {path: '*', name: 'Not Found', component: NotFound}
 ];
 
@@ -28,8 +38,13 @@ router.beforeEach((to, from, next) => {
       return;
     }
 
-    if (to.name === 'Account' && !router.app.$store.state.username) {
-      next({name: 'Login'}); // Go to Login page if user navigates to Account and are not signed in
+    if (['Account', 'Messages'].includes(to.name) && !router.app.$store.state.username) {
+      next({name: 'Login'}); // Go to Login page if user navigates to Account or Messages and are not signed in
+      return;
+    }
+
+    if (to.name === 'Moderation' && !['moderator', 'admin'].includes(router.app.$store.state.role)) {
+      next({name: 'Home'}); // Go to Home page if user navigates to Moderation and is not a moderator
       return;
     }
   }
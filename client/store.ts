@@ -11,12 +11,18 @@ const store = new Vuex.Store({
   state: {
     filter: null, // Username to filter shown freets by (null = show all)
     freets: [], // All freets created in the app
+    freetsNext: null, // Cursor of the next page of freets, if there are older ones
+    scheduledFreets: [], // The logged in user's freets that are not yet published, the soonest first
     username: null, // Username of the logged in user
+    anonName: null, // Pseudonym shown on the logged in user's anonymous posts
+    nighthawkMode: false, // Whether the logged in user posts anonymously by default
+    role: null, // Role of the logged in user: user, moderator or admin
+    privateAccount: false, // Whether the logged in user's account is private
+    twoFactorEnabled: false, // Whether the logged in user turned on two-factor authentication
     alerts: {}, // global success/error messages encountered during submissions to non-visible forms
     followingFreets: [],
     importantFreets: [],
     onThisDayFreets: [],
-    following: [], // contains one freet from every user the user follows
   },
   mutations: {
     alert(state, payload) {
@@ -35,6 +41,35 @@ const store = new Vuex.Store({
        */
       state.username = username;
     },
+    setAnonymity(state, user) {
+      /**
+       * Update the stored pseudonym and NighthawkMode default.
+       * @param user - The logged in user, or null if signed out
+       */
+      state.anonName = user ? user.anonName : null;
+      state.nighthawkMode = user ? user.nighthawkMode : false;
+    },
+    setRole(state, user) {
+      /**
+       * Update the stored role.
+       * @param user - The logged in user, or null if signed out
+       */
+      state.role = user ? user.role : null;
+    },
+    setPrivacy(state, user) {
+      /**
+       * Update whether the logged in user's account is private.
+       * @param user - The logged in user, or null if signed out
+       */
+      state.privateAccount = user ? user.private : false;
+    },
+    setTwoFactor(state, user) {
+      /**
+       * Update whether the logged in user turned on two-factor authentication.
+       * @param user - The logged in user, or null if signed out
+       */
+      state.twoFactorEnabled = user ? user.twoFactorEnabled : false;
+    },
     updateFilter(state, filter) {
       /**
        * Update the stored freets filter to the specified one.
@@ -49,6 +84,13 @@ const store = new Vuex.Store({
        */
       state.freets = freets;
     },
+    updateFreetsNext(state, next) {
+      /**
+       * Update the stored cursor of the next page of freets.
+       * @param next - The cursor, or null if there are no older freets
+       */
+      state.freetsNext = next || null;
+    },
     updateImportant(state, freets) {
       /**
        * Update the stored freets to the provided freets.
@@ -70,16 +112,21 @@ const store = new Vuex.Store({
        */
       state.followingFreets = freets;
     },
-    updateFollowingUsers(state, users) {
-      state.following = users;
-    },
     async refreshFreets(state) {
       /**
        * Request the server for the currently available freets.
        */
       const url = state.filter ? `/api/users/${state.filter}/freets` : '/api/freets';
       const res = await fetch(url).then(async r => r.json());
-      state.freets = res;
+      state.freets = res.freets;
+      state.freetsNext = res.next || null;
+    },
+    async refreshScheduledFreets(state) {
+      /**
+       * Request the server for the logged in user's scheduled freets.
+       */
+      const r = await fetch('/api/freets/scheduled');
+      state.scheduledFreets = r.ok ? await r.json() : [];
     }
   },
   // Store data across page refreshes, only discard on browser close
@@ -0,0 +1,53 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Alias} from './model';
+import AliasModel from './model';
+
+/**
+ * This file contains a class with functionality to interact with the old
+ * usernames of users stored in MongoDB.
+ */
+class AliasCollection {
+  /**
+   * Record that a user stopped using a username
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} username - The username they had
+   * @return {Promise<HydratedDocument<Alias>>} - The new alias
+   */
+  static async addOne(userId: Types.ObjectId | string, username: string): Promise<HydratedDocument<Alias>> {
+    const alias = new AliasModel({userId, username, dateRetired: new Date()});
+    await alias.save(); // Saves alias to MongoDB
+    return alias;
+  }
+
+  /**
+   * Find the user who most recently had a username (case insensitive)
+   *
+   * @param {string} username - The old username
+   * @return {Promise<HydratedDocument<Alias>> | Promise<null>} - The latest alias with that username, if any
+   */
+  static async findOneByUsername(username: string): Promise<HydratedDocument<Alias>> {
+    return AliasModel.findOne({username: new RegExp(`^${username.trim()}$`, 'i')}).sort({dateRetired: -1});
+  }
+
+  /**
+   * Get the usernames a user had before, most recent first
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<HydratedDocument<Alias>[]>} - The user's aliases
+   */
+  static async findAllByUserId(userId: Types.ObjectId | string): Promise<Array<HydratedDocument<Alias>>> {
+    return AliasModel.find({userId}).sort({dateRetired: -1});
+  }
+
+  /**
+   * Delete all of a user's aliases
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await AliasModel.deleteMany({userId});
+  }
+}
+
+export default AliasCollection;
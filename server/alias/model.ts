@@ -0,0 +1,45 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in an Alias, a username that a user
+ * had before renaming themselves. Aliases keep old @mentions and profile links
+ * pointing at the right user.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Alias on the backend
+export type Alias = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  userId: Types.ObjectId;
+  username: string;
+  dateRetired: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Aliases stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const AliasSchema = new Schema<Alias>({
+  // The user who had the username
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  // The old username
+  username: {
+    type: String,
+    required: true,
+    index: true
+  },
+  // The date the user stopped using the username
+  dateRetired: {
+    type: Date,
+    required: true
+  }
+});
+
+const AliasModel = model<Alias>('Alias', AliasSchema);
+export default AliasModel;
@@ -0,0 +1,99 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Block, BlockKind} from './model';
+import BlockModel from './model';
+import UserCollection from '../user/collection';
+
+/**
+ * This file contains a class with functionality to interact with blocks and
+ * mutes stored in MongoDB.
+ */
+class BlockCollection {
+  /**
+   * Block or mute a user
+   *
+   * @param {string} blockerId - The id of the user who blocks or mutes
+   * @param {string} blockedId - The id of the user to block or mute
+   * @param {BlockKind} kind - Whether to block or mute
+   * @return {Promise<HydratedDocument<Block>>} - The newly created block
+   */
+  static async addOne(blockerId: Types.ObjectId | string, blockedId: Types.ObjectId | string, kind: BlockKind): Promise<HydratedDocument<Block>> {
+    const block = new BlockModel({blockerId, blockedId, kind, dateCreated: new Date()});
+    await block.save(); // Saves block to MongoDB
+    return block.populate(['blockerId', 'blockedId']);
+  }
+
+  /**
+   * Find a block or mute between two users
+   *
+   * @param {string} blockerId - The id of the user who blocks or mutes
+   * @param {string} blockedId - The id of the blocked or muted user
+   * @param {BlockKind} kind - Whether to look for a block or a mute
+   * @return {Promise<HydratedDocument<Block>> | Promise<null>} - The block, if any
+   */
+  static async findOne(blockerId: Types.ObjectId | string, blockedId: Types.ObjectId | string, kind: BlockKind): Promise<HydratedDocument<Block>> {
+    return BlockModel.findOne({blockerId, blockedId, kind});
+  }
+
+  /**
+   * Get everyone a user has blocked or muted, most recent first
+   *
+   * @param {string} blockerId - The id of the user who blocks or mutes
+   * @param {BlockKind} kind - Whether to get blocks or mutes
+   * @return {Promise<HydratedDocument<Block>[]>} - The user's blocks or mutes
+   */
+  static async findAllByBlocker(blockerId: Types.ObjectId | string, kind: BlockKind): Promise<Array<HydratedDocument<Block>>> {
+    return BlockModel.find({blockerId, kind}).sort({dateCreated: -1}).populate(['blockerId', 'blockedId']);
+  }
+
+  /**
+   * Get the ids of the users whose posts a viewer should not see, i.e.
+   * everyone they blocked or muted and everyone waiting to be deleted
+   *
+   * @param {string} viewerId - The id of the viewing user, if they are signed in
+   * @return {Promise<Types.ObjectId[]>} - The ids of the hidden users
+   */
+  static async findHiddenUserIds(viewerId?: Types.ObjectId | string): Promise<Types.ObjectId[]> {
+    const deletedIds = await UserCollection.findDeletedIds();
+    if (!viewerId) {
+      return deletedIds;
+    }
+
+    const blocks = await BlockModel.find({blockerId: viewerId});
+    return [...deletedIds, ...blocks.map(block => block.blockedId)];
+  }
+
+  /**
+   * Check whether a user has blocked another user
+   *
+   * @param {string} blockerId - The id of the possibly blocking user
+   * @param {string} blockedId - The id of the possibly blocked user
+   * @return {Promise<boolean>} - true if blockerId blocked blockedId
+   */
+  static async isBlocked(blockerId: Types.ObjectId | string, blockedId: Types.ObjectId | string): Promise<boolean> {
+    return Boolean(await this.findOne(blockerId, blockedId, 'block'));
+  }
+
+  /**
+   * Unblock or unmute a user
+   *
+   * @param {string} blockerId - The id of the user who blocks or mutes
+   * @param {string} blockedId - The id of the blocked or muted user
+   * @param {BlockKind} kind - Whether to unblock or unmute
+   * @return {Promise<Boolean>} - true if the block has been deleted, false otherwise
+   */
+  static async deleteOne(blockerId: Types.ObjectId | string, blockedId: Types.ObjectId | string, kind: BlockKind): Promise<boolean> {
+    const block = await BlockModel.deleteOne({blockerId, blockedId, kind});
+    return block.deletedCount > 0;
+  }
+
+  /**
+   * Delete every block and mute from or to a user
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await BlockModel.deleteMany({$or: [{blockerId: userId}, {blockedId: userId}]});
+  }
+}
+
+export default BlockCollection;
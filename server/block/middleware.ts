@@ -0,0 +1,114 @@
+import type {Request, Response, NextFunction} from 'express';
+import type {BlockKind} from '../block/model';
+import BlockCollection from '../block/collection';
+import FreetCollection from '../freet/collection';
+import UserCollection from '../user/collection';
+
+/**
+ * Checks if the user named by user in req.body exists and is not the current user
+ */
+const isValidBlockTarget = async (req: Request, res: Response, next: NextFunction) => {
+  const {user: username} = req.body as {user: string};
+  const usernameRegex = /^\w+$/i;
+  const target = usernameRegex.test(username) ? await UserCollection.findOneByUsername(username) : null;
+  if (!target) {
+    res.status(404).json({
+      error: `A user with username ${username} does not exist.`
+    });
+    return;
+  }
+
+  if (target._id.toString() === req.session.userId) {
+    res.status(400).json({
+      error: 'You cannot block or mute yourself.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Build a middleware that checks whether the current user has (or has not)
+ * blocked or muted the user named by user in req.body
+ */
+const checkBlock = (kind: BlockKind, shouldExist: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+  const target = await UserCollection.findOneByUsername(req.body.user);
+  const block = await BlockCollection.findOne(req.session.userId, target._id, kind);
+  const verb = kind === 'block' ? 'blocked' : 'muted';
+  if (block && !shouldExist) {
+    res.status(409).json({
+      error: `You have already ${verb} ${target.username}.`
+    });
+    return;
+  }
+
+  if (!block && shouldExist) {
+    res.status(404).json({
+      error: `You have not ${verb} ${target.username}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the current user has not blocked the user named by user in req.body
+ */
+const isNotAlreadyBlocked = checkBlock('block', false);
+
+/**
+ * Checks if the current user has blocked the user named by user in req.body
+ */
+const isBlocking = checkBlock('block', true);
+
+/**
+ * Checks if the current user has not muted the user named by user in req.body
+ */
+const isNotAlreadyMuted = checkBlock('mute', false);
+
+/**
+ * Checks if the current user has muted the user named by user in req.body
+ */
+const isMuting = checkBlock('mute', true);
+
+/**
+ * Checks if the user named by user in req.body has not blocked the current user
+ */
+const isNotBlockedByUser = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUsername(req.body.user);
+  if (user && await BlockCollection.isBlocked(user._id, req.session.userId)) {
+    res.status(403).json({
+      error: `${user.username} has blocked you.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the author of the freet whose freetId is in req.params has not blocked the current user
+ */
+const isNotBlockedByFreetAuthor = async (req: Request, res: Response, next: NextFunction) => {
+  const freet = await FreetCollection.findOne(req.params.freetId);
+  if (await BlockCollection.isBlocked(freet.authorId._id, req.session.userId)) {
+    res.status(403).json({
+      error: 'The author of this freet has blocked you.'
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidBlockTarget,
+  isNotAlreadyBlocked,
+  isBlocking,
+  isNotAlreadyMuted,
+  isMuting,
+  isNotBlockedByUser,
+  isNotBlockedByFreetAuthor
+};
@@ -0,0 +1,64 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+import type {User} from '../user/model';
+
+/**
+ * This file defines the properties stored in a Block. A mute hides a user's
+ * posts; a block also stops them from interacting with the blocker.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+export type BlockKind = 'block' | 'mute';
+
+// Type definition for Block on the backend
+export type Block = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  blockerId: Types.ObjectId;
+  blockedId: Types.ObjectId;
+  kind: BlockKind;
+  dateCreated: Date;
+};
+
+export type PopulatedBlock = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  blockerId: User;
+  blockedId: User;
+  kind: BlockKind;
+  dateCreated: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Blocks stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const BlockSchema = new Schema<Block>({
+  // The user who blocks or mutes
+  blockerId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The user being blocked or muted
+  blockedId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // Whether this is a block or a mute
+  kind: {
+    type: String,
+    enum: ['block', 'mute'],
+    required: true
+  },
+  // The date the block or mute started
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+BlockSchema.index({blockerId: 1, blockedId: 1, kind: 1}, {unique: true});
+
+const BlockModel = model<Block>('Block', BlockSchema);
+export default BlockModel;
@@ -0,0 +1,45 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {Block, BlockKind, PopulatedBlock} from '../block/model';
+
+// Update this if you add a property to the Block type!
+type BlockResponse = {
+  _id: string;
+  user: string;
+  kind: BlockKind;
+  dateCreated: string;
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw Block object from the database into an object
+ * with all the information needed by the frontend. Blocks are only
+ * shown to the blocker, so only the blocked user is named.
+ *
+ * @param {HydratedDocument<Block>} block - A block or mute
+ * @returns {BlockResponse} - The block object formatted for the frontend
+ */
+const constructBlockResponse = (block: HydratedDocument<Block>): BlockResponse => {
+  const blockCopy: PopulatedBlock = {
+    ...block.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    _id: blockCopy._id.toString(),
+    user: blockCopy.blockedId.username,
+    kind: blockCopy.kind,
+    dateCreated: formatDate(block.dateCreated)
+  };
+};
+
+export {
+  constructBlockResponse
+};
@@ -1,32 +1,43 @@
-import type {HydratedDocument, Types} from 'mongoose';
+import type {FilterQuery, HydratedDocument} from 'mongoose';
+import {Types} from 'mongoose';
 import type {Comment} from './model';
+import type {FeedPage} from '../feed/util';
 import CommentModel from './model';
+import FreetModel from '../freet/model';
 import UserCollection from '../user/collection';
 import FreetCollection from '../freet/collection';
+import ReputationCollection from '../reputation/collection';
+import BlockCollection from '../block/collection';
+import FollowCollection from '../follow/collection';
+import NotificationCollection from '../notification/collection';
+import MentionCollection from '../mention/collection';
+import {pageFilter, pageSort} from '../feed/util';
 
 class CommentCollection {
   /**
-   * Add a Comment to the collection
+   * Add a Comment to the collection, notifying the freet's author and everyone the comment mentions
    *
    * @param {string} authorId - The id of the author of the comment
    * @param {string} content - The id of the content of the comment
    * @param {string} freetId - The id of the original freet
+   * @param {boolean} anonymous - Whether to post under the author's pseudonym; defaults to their NighthawkMode
    * @return {Promise<HydratedDocument<Comment>>} - The newly created freet
    */
-  static async addOne(authorId: Types.ObjectId | string, content: string, freetId: Types.ObjectId | string): Promise<HydratedDocument<Comment>> {
+  static async addOne(authorId: Types.ObjectId | string, content: string, freetId: Types.ObjectId | string, anonymous?: boolean): Promise<HydratedDocument<Comment>> {
     const date = new Date();
     const user = await UserCollection.findOneByUserId(authorId);
-    let anon = false;
+    const anon = anonymous ?? user.nighthawkMode;
     let initUpvotes = 0;
     const initUpvoters:Array<any> = [];
     const initDownvoters:Array<any> = [];
-    if (user.username == 'Anonymous') anon = true;
+    const mentions = await MentionCollection.parse(content);
     const comment = new CommentModel({
       authorId,
-      author: user,
+      author: anon ? user.anonName : user.username,
       freetId: freetId,
       dateCreated: date,
       content,
+      mentions,
       dateModified: date,
       anonymous: anon,
       upvoters: initUpvoters,
@@ -37,6 +48,15 @@ class CommentCollection {
     freet.comments.push(comment);
     await freet.save();
     await comment.save(); // Saves comment to MongoDB
+    await NotificationCollection.addOne({
+      userId: freet.authorId._id,
+      actorId: authorId,
+      kind: 'comment',
+      freetId: freet._id,
+      commentId: comment._id,
+      anonymous: anon
+    });
+    await NotificationCollection.notifyMentions({actorId: authorId, mentions, freetId: freet._id, commentId: comment._id, anonymous: anon});
     return comment.populate('authorId');
   }
 
@@ -51,80 +71,112 @@ class CommentCollection {
   }
 
   /**
-   * Get all the comments in the database
+   * Find comments by their ids
    *
-   * @return {Promise<HydratedDocument<Comment>[]>} - An array of all of the comments
+   * @param {Types.ObjectId[]} commentIds - The ids of the comments to find
+   * @return {Promise<HydratedDocument<Comment>[]>} - The comments that exist, in any order
+   */
+  static async findAllByIds(commentIds: Types.ObjectId[]): Promise<Array<HydratedDocument<Comment>>> {
+    return CommentModel.find({_id: {$in: commentIds}}).populate('authorId');
+  }
+
+  /**
+   * Get a page of all the comments in the database, except those by users the
+   * viewer blocked or muted, those by private accounts that haven't approved
+   * the viewer and those on freets the viewer can't see
+   *
+   * @param {FeedPage} page - The page to get
+   * @param {string} viewerId - The id of the user viewing the comments, if they are signed in
+   * @return {Promise<HydratedDocument<Comment>[]>} - The comments on the page, and one more if there is any
    */
-  static async findAll(): Promise<Array<HydratedDocument<Comment>>> {
-    // Retrieves comments and sorts them from most to least recent
-    return CommentModel.find({}).sort({dateModified: -1}).populate('authorId');
+  static async findAll(page: FeedPage, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    const unviewableIds = await FreetCollection.findUnviewableIds(viewerId);
+    return this.findPage({authorId: {$nin: [...hiddenIds, ...privateIds]}, freetId: {$nin: unviewableIds}, hidden: {$ne: true}}, page);
+  }
+
+  /**
+   * Get a page of the comments matching a filter. One more comment than the
+   * limit is read, so that the caller knows if there is another page.
+   *
+   * @param {FilterQuery<Comment>} filter - The comments to choose from
+   * @param {FeedPage} page - The page to get
+   * @return {Promise<HydratedDocument<Comment>[]>} - The comments on the page, and one more if there is any
+   */
+  static async findPage(filter: FilterQuery<Comment>, page: FeedPage): Promise<Array<HydratedDocument<Comment>>> {
+    return CommentModel.find({...filter, ...pageFilter(page)}).sort(pageSort(page)).limit(page.limit + 1).populate('authorId');
   }
 
 
   /**
-   * Get all of the comments that tag a certain user
+   * Get all of the comments that tag a certain user, under their current or
+   * any old username, except those by users the tagged user blocked or muted,
+   * those by private accounts that haven't approved them and those on freets
+   * they can't see
    *
+   * @param {string} userId - The id of the tagged user
    * @return {Promise<HydratedDocument<Comment>[]>} - An array of all of the comments
    */
-   static async findAllTag(username: string): Promise<Array<HydratedDocument<Comment>>> {
-    const commentArray = await CommentModel.find({}).sort({dateModified: -1}).populate('authorId');
-    const taggedUserArray = [];
-    for (const comment of commentArray)
-    {
-      const text = comment.content;
-      const tag = "@" + username + " ";
-      if (text.includes(tag))
-      {
-        taggedUserArray.push(comment);
-      }
-    }
-    return taggedUserArray;
+  static async findAllTag(userId: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(userId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(userId);
+    const unviewableIds = await FreetCollection.findUnviewableIds(userId);
+    return CommentModel.find({
+      'mentions.userId': userId,
+      authorId: {$nin: [...hiddenIds, ...privateIds]},
+      freetId: {$nin: unviewableIds},
+      hidden: {$ne: true}
+    }).sort({dateModified: -1}).populate('authorId');
   }
 
   /**
    * User upvotes a comment.
    *
-   * @param {string} username - The user that upvotes the comment
+   * @param {Types.ObjectId} voterId - The id of the user that upvotes the comment
    * @param {string} commentId - The id of the comment to find
-   * @param {number} react: upvote or downvote or unvote (=1 = downvote, 1 = upvote, repeating undoes, overriding exists)
-   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the updated reputation.
+   * @param {number} react: upvote or downvote or unvote (-1 = downvote, 1 = upvote, repeating undoes, overriding exists)
+   * @return {Promise<HydratedDocument<Comment>> | Promise<null>} - The comment with the updated votes. The change is
+   *                                                             recorded in the author's reputation ledger.
    */
-   static async upvoteComment(username: string, commentId: Types.ObjectId | string, react: number): Promise<HydratedDocument<Comment>> {
+  static async upvoteComment(voterId: Types.ObjectId, commentId: Types.ObjectId | string, react: number): Promise<HydratedDocument<Comment>> {
     const comment = await this.findOne(commentId);
+    const upvotesBefore = comment?.upvotes;
+    const wasUpvoter = comment?.upvoters.includes(voterId);
     if (comment)
     {
-      if (comment.upvoters.includes(username))
+      if (comment.upvoters.includes(voterId))
       {
         if (react == 1)
         {
           comment.upvotes -= 1;
-          const ix = comment.upvoters.indexOf(username);
+          const ix = comment.upvoters.indexOf(voterId);
           comment.upvoters.splice(ix, 1);
           await comment.save();
         }
         else if (react == -1)
         {
           comment.upvotes -= 2;
-          const ix = comment.upvoters.indexOf(username);
-          comment.downvoters.push(username);
+          const ix = comment.upvoters.indexOf(voterId);
+          comment.downvoters.push(voterId);
           comment.upvoters.splice(ix, 1);
           await comment.save();          
         }
       }
-      else if (comment.downvoters.includes(username))
+      else if (comment.downvoters.includes(voterId))
       {
         if (react == 1)
         {
           comment.upvotes += 2;
-          const ix = comment.downvoters.indexOf(username);
-          comment.upvoters.push(username);
+          const ix = comment.downvoters.indexOf(voterId);
+          comment.upvoters.push(voterId);
           comment.downvoters.splice(ix, 1);
           await comment.save();
         }
         else if (react == -1)
         {
           comment.upvotes += 1;
-          const ix = comment.upvoters.indexOf(username);
+          const ix = comment.downvoters.indexOf(voterId);
           comment.downvoters.splice(ix, 1);
           await comment.save();          
         }
@@ -134,51 +186,89 @@ class CommentCollection {
         if (react == 1)
         {
           comment.upvotes += 1;
-          comment.upvoters.push(username);
+          comment.upvoters.push(voterId);
           await comment.save();
         }
         else if (react == -1)
         {
           comment.upvotes -= 1;
-          comment.downvoters.push(username);
+          comment.downvoters.push(voterId);
           await comment.save();          
         }        
       }
+
+      // The change is labelled by the vote the voter now gives, or the one they took back
+      const isUpvoter = comment.upvoters.includes(voterId);
+      const isDownvoter = comment.downvoters.includes(voterId);
+      await ReputationCollection.addOne({
+        userId: comment.authorId._id,
+        actorId: voterId,
+        source: isUpvoter || (!isDownvoter && wasUpvoter) ? 'commentUpvote' : 'commentDownvote',
+        sourceId: comment._id,
+        change: comment.upvotes - upvotesBefore
+      });
     }
     return comment;
   }
 
   /**
-   * Get all the comments in by given author
+   * Get a page of the comments by given author. Comments they posted anonymously
+   * are left out so that they can't be traced back to the author, and so are
+   * those on freets the viewer can't see. If the author's account is private,
+   * only they and their approved followers see any comments.
    *
    * @param {string} username - The username of author of the comments
-   * @return {Promise<HydratedDocument<Comment>[]>} - An array of all of the comments
+   * @param {FeedPage} page - The page to get
+   * @param {string} viewerId - The id of the user viewing the comments, if they are signed in
+   * @return {Promise<HydratedDocument<Comment>[]>} - The comments on the page, and one more if there is any
    */
-  static async findAllByUsername(username: string): Promise<Array<HydratedDocument<Comment>>> {
+  static async findAllByUsername(username: string, page: FeedPage, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
     const author = await UserCollection.findOneByUsername(username);
-    return CommentModel.find({authorId: author._id}).populate('authorId');
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    if (privateIds.some(id => id.equals(author._id))) {
+      return [];
+    }
+
+    const unviewableIds = await FreetCollection.findUnviewableIds(viewerId);
+    return this.findPage({authorId: author._id, anonymous: false, freetId: {$nin: unviewableIds}, hidden: {$ne: true}}, page);
   }
 
   /**
-   * Get all the comments in a freet.
+   * Get all the comments in a freet, oldest first, except those by users the
+   * viewer blocked or muted.
    *
    * @param {string} freetId - The freetId
+   * @param {string} viewerId - The id of the user viewing the comments, if they are signed in
    * @return {Promise<HydratedDocument<Comment>[]>} - An array of all of the comments
    */
-   static async findAllByFreet(freetId: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
-    const freet = await FreetCollection.findOne(freetId);
-    if (freet)
-    {
-      console.log('valid freet');
-      console.log(freet.comments);
-      return freet.comments;
-    }
-    return [];
+  static async findAllByFreet(freetId: Types.ObjectId | string, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    return CommentModel.find({freetId, authorId: {$nin: hiddenIds}, hidden: {$ne: true}}).sort({dateCreated: 1}).populate('authorId');
+  }
+
+  /**
+   * Get every comment by an author, including anonymous ones, most recent first.
+   * Only use this on behalf of the author themselves.
+   *
+   * @param {string} authorId - The id of the author of the comments
+   * @return {Promise<HydratedDocument<Comment>[]>} - An array of all of the comments
+   */
+  static async findAllByAuthorId(authorId: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
+    return CommentModel.find({authorId}).sort({dateCreated: -1}).populate('authorId');
   }
 
+  /**
+   * Get every comment a user upvoted or downvoted
+   *
+   * @param {string} voterId - The id of the voter
+   * @return {Promise<HydratedDocument<Comment>[]>} - An array of the voted comments
+   */
+  static async findAllVotedBy(voterId: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
+    return CommentModel.find({$or: [{upvoters: voterId}, {downvoters: voterId}]});
+  }
 
   /**
-   * Update a comment with the new content
+   * Update a comment with the new content, notifying everyone newly mentioned
    *
    * @param {string} commentId - The id of the comment to be updated
    * @param {string} content - The new content of the comment
@@ -187,30 +277,87 @@ class CommentCollection {
   static async updateOne(commentId: Types.ObjectId | string, content: string): Promise<HydratedDocument<Comment>> {
     const comment = await CommentModel.findOne({_id: commentId});
     comment.content = content;
+    comment.mentions = await MentionCollection.parse(content);
     comment.dateModified = new Date();
     await comment.save();
+    await NotificationCollection.notifyMentions({
+      actorId: comment.authorId,
+      mentions: comment.mentions,
+      freetId: comment.freetId,
+      commentId: comment._id,
+      anonymous: comment.anonymous
+    });
     return comment.populate('authorId');
   }
 
   /**
-   * Delete a comment with given commentId.
+   * Delete a comment with given commentId, along with its copy on the freet.
    *
    * @param {string} commentId - The commentId of comment to delete
    * @return {Promise<Boolean>} - true if the comment has been deleted, false otherwise
    */
   static async deleteOne(commentId: Types.ObjectId | string): Promise<boolean> {
+    const embeddedId = new Types.ObjectId(commentId.toString());
+    await FreetModel.updateOne({'comments._id': embeddedId}, {$pull: {comments: {_id: embeddedId}}});
     const comment = await CommentModel.deleteOne({_id: commentId});
     return comment !== null;
   }
 
   /**
-   * Delete all the comments by the given author
+   * Get every comment on a freet, including hidden ones, for moderators to review
+   *
+   * @param {string} freetId - The id of the freet
+   * @return {Promise<HydratedDocument<Comment>[]>} - The comments, oldest first
+   */
+  static async findAllByFreetForModeration(freetId: Types.ObjectId | string): Promise<Array<HydratedDocument<Comment>>> {
+    return CommentModel.find({freetId}).sort({dateCreated: 1}).populate('authorId');
+  }
+
+  /**
+   * Hide a comment from everyone, or show it again, along with its copy on the freet
+   *
+   * @param {string} commentId - The id of the comment
+   * @param {boolean} hidden - Whether to hide the comment
+   * @return {Promise<HydratedDocument<Comment>>} - The updated comment
+   */
+  static async setHidden(commentId: Types.ObjectId | string, hidden: boolean): Promise<HydratedDocument<Comment>> {
+    const embeddedId = new Types.ObjectId(commentId.toString());
+    await FreetModel.updateOne({'comments._id': embeddedId}, {$set: {'comments.$.hidden': hidden}});
+    return CommentModel.findOneAndUpdate({_id: commentId}, {$set: {hidden}}, {new: true}).populate('authorId');
+  }
+
+  /**
+   * Delete all the comments by the given author, including the copies kept
+   * on the freets they commented on
    *
    * @param {string} authorId - The id of author of comments
    */
   static async deleteMany(authorId: Types.ObjectId | string): Promise<void> {
+    // Embedded comments are untyped, so the id has to be cast by hand
+    const embeddedAuthorId = new Types.ObjectId(authorId.toString());
+    await FreetModel.updateMany({'comments.authorId': embeddedAuthorId}, {$pull: {comments: {authorId: embeddedAuthorId}}});
     await CommentModel.deleteMany({authorId});
   }
+
+  /**
+   * Delete all the comments on the given freets
+   *
+   * @param {Types.ObjectId[]} freetIds - The ids of the freets
+   */
+  static async deleteManyByFreets(freetIds: Types.ObjectId[]): Promise<void> {
+    await CommentModel.deleteMany({freetId: {$in: freetIds}});
+  }
+
+  /**
+   * Take back every vote a user cast on comments, keeping each comment's
+   * score in line with its remaining voters
+   *
+   * @param {string} voterId - The id of the voter
+   */
+  static async removeVotesBy(voterId: Types.ObjectId | string): Promise<void> {
+    await CommentModel.updateMany({upvoters: voterId}, {$pull: {upvoters: voterId}, $inc: {upvotes: -1}});
+    await CommentModel.updateMany({downvoters: voterId}, {$pull: {downvoters: voterId}, $inc: {upvotes: 1}});
+  }
 }
 
 export default CommentCollection;
@@ -1,6 +1,8 @@
 import type {Request, Response, NextFunction} from 'express';
 import {Types} from 'mongoose';
 import CommentCollection from '../comments/collection';
+import FreetCollection from '../freet/collection';
+import FollowCollection from '../follow/collection';
 
 /**
  * Checks if a comment with commentId is req.params exists
@@ -20,6 +22,43 @@ const isCommentExists = async (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+/**
+ * Checks if a freet with id freet in req.query exists
+ */
+const isQueriedFreetExists = async (req: Request, res: Response, next: NextFunction) => {
+  const freetId = req.query.freet as string;
+  const validFormat = Types.ObjectId.isValid(freetId);
+  const freet = validFormat ? await FreetCollection.findOne(freetId) : '';
+  if (!freet) {
+    res.status(404).json({
+      error: `Freet with freet ID ${freetId} does not exist.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the viewer may see the freet with id freet in req.query, i.e. it isn't
+ * hidden by a moderator or by a private account that hasn't approved the viewer,
+ * unless the viewer wrote it
+ */
+const isQueriedFreetViewable = async (req: Request, res: Response, next: NextFunction) => {
+  const freetId = req.query.freet as string;
+  const freet = await FreetCollection.findOne(freetId);
+  const isAuthor = freet.authorId._id.toString() === req.session.userId;
+  const privateIds = await FollowCollection.findInaccessibleUserIds(req.session.userId);
+  if (!isAuthor && (freet.hidden || privateIds.some(id => id.equals(freet.authorId._id)))) {
+    res.status(404).json({
+      error: `Freet with freet ID ${freetId} does not exist.`
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Checks if the content of the comment in req.body is valid, i.e not a stream of empty
  * spaces and not more than 5000 characters
@@ -43,6 +82,20 @@ const isValidCommentContent = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+/**
+ * Checks if the react in req.params is 1 to upvote or -1 to downvote
+ */
+const isValidReact = (req: Request, res: Response, next: NextFunction) => {
+  if (!['1', '-1'].includes(req.params.react)) {
+    res.status(400).json({
+      error: 'React must be 1 to upvote or -1 to downvote.'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Checks if the current user is the author of the comment whose commentId is in req.params
  */
@@ -62,5 +115,8 @@ const isValidCommentModifier = async (req: Request, res: Response, next: NextFun
 export {
   isValidCommentContent,
   isCommentExists,
+  isQueriedFreetExists,
+  isQueriedFreetViewable,
+  isValidReact,
   isValidCommentModifier
 };
@@ -1,6 +1,8 @@
 import type {Types, PopulatedDoc, Document} from 'mongoose';
 import {Schema, model} from 'mongoose';
 import type {User} from '../user/model';
+import type {Mention, PopulatedMention} from '../mention/model';
+import {MentionSchema} from '../mention/model';
 
 /**
  * This file defines the properties stored in a Freet
@@ -15,11 +17,29 @@ export type Comment = {
   freetId: Types.ObjectId;
   dateCreated: Date;
   content: string;
+  mentions: Mention[];
   dateModified: Date;
   anonymous: boolean;
+  hidden: boolean; // Hidden by a moderator
   upvotes: number;
-  upvoters: Array<any>;
-  downvoters: Array<any>;
+  upvoters: Types.ObjectId[];
+  downvoters: Types.ObjectId[];
+};
+
+export type PopulatedComment = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  authorId: User;
+  author: string;
+  freetId: Types.ObjectId;
+  dateCreated: Date;
+  content: string;
+  mentions: PopulatedMention[];
+  dateModified: Date;
+  anonymous: boolean;
+  hidden: boolean; // Hidden by a moderator
+  upvotes: number;
+  upvoters: Types.ObjectId[];
+  downvoters: Types.ObjectId[];
 };
 
 // Mongoose schema definition for interfacing with a MongoDB table
@@ -33,6 +53,7 @@ const CommentSchema = new Schema<Comment>({
     required: true,
     ref: 'User'
   },
+  // The name shown on the comment: the author's username, or pseudonym if anonymous
   author: {
     type: String,
     required: true
@@ -53,6 +74,11 @@ const CommentSchema = new Schema<Comment>({
     type: String,
     required: true
   },
+  // The users mentioned in the content, found when it was written
+  mentions: {
+    type: [MentionSchema],
+    default: []
+  },
   // The date the freet was modified
   dateModified: {
     type: Date,
@@ -62,19 +88,33 @@ const CommentSchema = new Schema<Comment>({
     type: Boolean,
     required: true
   },
+  // Whether a moderator hid the comment from everyone
+  hidden: {
+    type: Boolean,
+    default: false
+  },
+  // The users who upvoted the comment
   upvoters: {
-    type: [],
+    type: [{type: Schema.Types.ObjectId, ref: 'User'}],
     required: true
   },
   upvotes: {
     type: Number,
     required: true
   },
+  // The users who downvoted the comment
   downvoters: {
-    type: [],
+    type: [{type: Schema.Types.ObjectId, ref: 'User'}],
     required: true
   },
 });
 
+// Feeds are read most recent first, a page at a time (see feed/util)
+CommentSchema.index({dateModified: -1, _id: -1});
+CommentSchema.index({authorId: 1, dateModified: -1, _id: -1});
+CommentSchema.index({'mentions.userId': 1, dateModified: -1, _id: -1});
+CommentSchema.index({content: 'text'});
+CommentSchema.index({freetId: 1, dateCreated: 1});
+
 const CommentModel = model<Comment>('Comment', CommentSchema);
 export default CommentModel;
@@ -4,32 +4,47 @@ import CommentCollection from './collection';
 import * as userValidator from '../user/middleware';
 import * as freetValidator from '../freet/middleware';
 import * as commentValidator from '../comments/middleware';
+import * as blockValidator from '../block/middleware';
+import * as feedValidator from '../feed/middleware';
 import * as util from './util';
+import * as feedUtil from '../feed/util';
 import UserCollection from '../user/collection';
 import FreetCollection from '../freet/collection';
 
 const router = express.Router();
 
 /**
- * Get all the comments
- *
- * @name GET /api/comments
- *
- * @return {CommentResponse[]} - A list of all the comments sorted in descending
- *                      order by date modified
+ * Get a page of all the comments, leaving out those by users the signed in
+ * user blocked or muted, by private accounts that haven't approved them and
+ * on freets they can't see. Pass the next cursor of a page as before to get
+ * older comments, or the previous cursor as after to get newer ones.
+ *
+ * @name GET /api/comments?before=cursor&after=cursor&limit=number
+ *
+ * @return {{comments: CommentResponse[], next?: string, previous?: string}} - The comments
+ *                      sorted in descending order by date modified, the cursor of the next
+ *                      page if there are older comments, and the cursor to check for newer ones
+ * @throws {400} - If both before and after are given, either is not a cursor,
+ *                 or limit is not from 1 to 50
  */
 /**
- * Get comments by author.
+ * Get a page of comments by author, leaving out those on freets the signed in
+ * user can't see, and all of them if the author's account is private and
+ * hasn't approved the signed in user.
  *
  * @name GET /api/comments?authorId=id
  *
- * @return {CommentResponse[]} - An array of comments created by user with id, authorId
+ * @return {{comments: CommentResponse[], next?: string, previous?: string}} - A page of
+ *                      comments created by user with id, authorId
  * @throws {400} - If authorId is not given
  * @throws {404} - If no user has given authorId
  *
  */
 router.get(
   '/',
+  [
+    feedValidator.isValidFeedPage
+  ],
   async (req: Request, res: Response, next: NextFunction) => {
     // Check if authorId query parameter was supplied
     if (req.query.author !== undefined) {
@@ -37,67 +52,59 @@ router.get(
       return;
     }
 
-    const allComments = await CommentCollection.findAll();
-    const response = allComments.map(util.constructCommentResponse);
-    res.status(200).json(response);
+    const page = feedUtil.getFeedPage(req.query);
+    const allComments = await CommentCollection.findAll(page, req.session.userId);
+    res.status(200).json(util.constructCommentPageResponse(allComments, page));
   },
   [
     userValidator.isAuthorExists
   ],
   async (req: Request, res: Response) => {
-    const authorComments = await CommentCollection.findAllByUsername(req.query.author as string);
-    const response = authorComments.map(util.constructCommentResponse);
-    res.status(200).json(response);
+    const page = feedUtil.getFeedPage(req.query);
+    const authorComments = await CommentCollection.findAllByUsername(req.query.author as string, page, req.session.userId);
+    res.status(200).json(util.constructCommentPageResponse(authorComments, page));
   }
 );
 
 /**
- * Get comments for a freet
+ * Get comments for a freet, leaving out those by users the signed in user blocked or muted
  *
  * @name GET /api/comments/freets?freet=freetId
  *
- * @return {CommentResponse[]} - An array of comments
- * @throws {400} - If freetId is not given
- * @throws {404} - If no freet exists with that id
+ * @return {CommentResponse[]} - An array of comments, oldest first
+ * @throws {404} - If no freet exists with that id, or the signed in user can't see it
  *
  */
- router.get(
+router.get(
   '/freets',
   [
-    // freetValidator.isFreetExists
-    // userValidator.doesUserExist // uncomment once it's fixed
+    commentValidator.isQueriedFreetExists,
+    commentValidator.isQueriedFreetViewable
   ],
   async (req: Request, res: Response) => {
-
-    console.log('here');
-    console.log(req.query.freet);
-    const freetComments = await CommentCollection.findAllByFreet(req.query.freet as string);
-    console.log(typeof(freetComments));
-    if (freetComments)
-    {
-      const response = freetComments.map(util.constructCommentResponse);
-      res.status(200).json(response);      
-    }
+    const freetComments = await CommentCollection.findAllByFreet(req.query.freet as string, req.session.userId);
+    const response = freetComments.map(util.constructCommentResponse);
+    res.status(200).json(response);
   }
 );
 
 /**
- * Get important comments for a user.
+ * Get important comments for the signed in user, the ones that mention them.
  *
- * @name GET /api/comments/important?user=USERNAME
+ * @name GET /api/comments/important
  *
  * @return {CommentResponse[]} - An array of comments including the user's username
- * @throws {400} - If authorId is not given
- * @throws {404} - If no user has given authorId
+ * @throws {403} - If the user is not logged in
  *
  */
  router.get(
   '/important',
   [
-    // userValidator.doesUserExist // uncomment once it's fixed
+    userValidator.isUserLoggedIn
   ],
   async (req: Request, res: Response) => {
-    const taggedComments = await CommentCollection.findAllTag(req.query.user as string);
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const taggedComments = await CommentCollection.findAllTag(userId);
     const response = taggedComments.map(util.constructCommentResponse);
     res.status(200).json(response);
   }
@@ -110,21 +117,27 @@ router.get(
  *
  * @param {string} content - The content of the comment
  * @param {string} freetId - The id of the freet to add the comment to
+ * @param {boolean} [anonymous] - Whether to post under the user's pseudonym, defaults to their NighthawkMode
  * @return {CommentResponse} - The created comment
- * @throws {403} - If the user is not logged in
- * @throws {400} - If the comment content is empty or a stream of empty spaces
+ * @throws {403} - If the user is not logged in or the freet's author blocked them
+ * @throws {404} - If the freetId is not valid, or the user can't see the freet
+ * @throws {400} - If the comment content is empty or a stream of empty spaces,
+ *                 or the anonymous flag is not a boolean
  * @throws {413} - If the comment content is more than 140 characters long
  */
 router.post(
   '/:freetId?',
   [
     userValidator.isUserLoggedIn,
-    freetValidator.isValidFreetContent,
-    commentValidator.isValidCommentContent
+    freetValidator.isFreetExists,
+    freetValidator.isFreetViewable,
+    blockValidator.isNotBlockedByFreetAuthor,
+    commentValidator.isValidCommentContent,
+    freetValidator.isValidAnonymousFlag
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    const comment = await CommentCollection.addOne(userId, req.body.content, req.params.freetId);
+    const comment = await CommentCollection.addOne(userId, req.body.content, req.params.freetId, req.body.anonymous);
 
     res.status(201).json({
       message: 'Your comment was created successfully.',
@@ -193,21 +206,27 @@ router.put(
  *
  * @name PUT /api/comments/react/:commentId?/:action?
  *
- * @return {string} - A success message.
- * @throws {400} - If commentId is not given
+ * @return {CommentResponse} - The voted comment
+ * @throws {400} - If react is not 1 to upvote or -1 to downvote
+ * @throws {403} - If the user is not logged in
  * @throws {404} - If commentId is invalid
  *
  */
  router.put(
   '/react/:commentId?/:react?',
   [
-    commentValidator.isCommentExists, // need to uncomment this
+    userValidator.isUserLoggedIn,
+    commentValidator.isCommentExists,
+    commentValidator.isValidReact
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
     const user = await UserCollection.findOneByUserId(userId);
-    const response = await CommentCollection.upvoteComment(user.username, req.params.commentId as string, Number(req.params.react));
-    res.status(200).json(response);
+    const comment = await CommentCollection.upvoteComment(user._id, req.params.commentId, Number(req.params.react));
+    res.status(200).json({
+      message: 'Your vote was recorded successfully.',
+      comment: util.constructCommentResponse(comment)
+    });
   }
 );
 
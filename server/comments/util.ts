@@ -1,6 +1,8 @@
 import type {HydratedDocument} from 'mongoose';
 import moment from 'moment';
-import type {Comment} from '../comments/model';
+import type {Comment, PopulatedComment} from '../comments/model';
+import type {FeedPage} from '../feed/util';
+import {constructFeedPage} from '../feed/util';
 
 // Update this if you add a property to the Freet type!
 type CommentResponse = {
@@ -9,6 +11,13 @@ type CommentResponse = {
   dateCreated: string;
   content: string;
   dateModified: string;
+  anonymous: boolean;
+};
+
+type CommentPageResponse = {
+  comments: CommentResponse[];
+  next?: string; // Cursor to pass as before to get older comments, if there are any
+  previous?: string; // Cursor to pass as after to get newer comments
 };
 
 /**
@@ -27,22 +36,41 @@ const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:
  * @returns {CommentResponse} - The comment object formatted for the frontend
  */
 const constructCommentResponse = (comment: HydratedDocument<Comment>): CommentResponse => {
-  const commentCopy: Comment = {
+  const commentCopy: PopulatedComment = {
     ...comment.toObject({
       versionKey: false // Cosmetics; prevents returning of __v property
     })
   };
-  const username:string = commentCopy.authorId.toString();
+  const {username, anonName} = commentCopy.authorId;
   delete commentCopy.authorId;
   return {
     ...commentCopy,
     _id: commentCopy._id.toString(),
-    author: username,
+    author: commentCopy.anonymous ? anonName : username,
     dateCreated: formatDate(comment.dateCreated),
     dateModified: formatDate(comment.dateModified)
   };
 };
 
+/**
+ * Transform the comments read for a page of a feed into the page
+ *
+ * @param {HydratedDocument<Comment>[]} comments - The comments read for the page
+ * @param {FeedPage} page - The page that was read
+ * @returns {CommentPageResponse} - The page formatted for the frontend
+ */
+const constructCommentPageResponse = (comments: Array<HydratedDocument<Comment>>, page: FeedPage): CommentPageResponse => {
+  const {items, next, previous} = constructFeedPage(comments, page);
+  return {
+    comments: items.map(constructCommentResponse),
+    next,
+    previous
+  };
+};
+
+export type {CommentResponse, CommentPageResponse};
+
 export {
-  constructCommentResponse
+  constructCommentResponse,
+  constructCommentPageResponse
 };
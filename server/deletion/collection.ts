@@ -0,0 +1,68 @@
+import type {HydratedDocument} from 'mongoose';
+import type {User} from '../user/model';
+import UserCollection from '../user/collection';
+import FreetCollection from '../freet/collection';
+import CommentCollection from '../comments/collection';
+import FollowCollection from '../follow/collection';
+import ReputationCollection from '../reputation/collection';
+import BlockCollection from '../block/collection';
+import SessionCollection from '../session/collection';
+import TokenCollection from '../token/collection';
+import AliasCollection from '../alias/collection';
+import NotificationCollection from '../notification/collection';
+import MessageCollection from '../messages/collection';
+import RecoveryCodeCollection from '../recovery/collection';
+import RevisionCollection from '../revision/collection';
+import DraftCollection from '../draft/collection';
+
+/**
+ * This file contains a class that permanently removes accounts whose deletion
+ * grace period is over, along with everything that refers to them. It lives
+ * apart from UserCollection because it needs every other collection.
+ */
+class DeletionCollection {
+  /**
+   * Purge every account whose deletion grace period is over
+   *
+   * @return {Promise<number>} - The number of purged accounts
+   */
+  static async purgeExpired(): Promise<number> {
+    const users = await UserCollection.findAllDueForPurge();
+    await Promise.all(users.map(async user => this.purgeOne(user)));
+    return users.length;
+  }
+
+  /**
+   * Permanently delete a user, their freets, comments and drafts, the
+   * comments on, comment drafts on and earlier versions of their freets,
+   * their votes, follows, blocks, reputation ledger, sessions, access tokens,
+   * recovery codes, old usernames, notifications and direct messages
+   *
+   * @param {HydratedDocument<User>} user - The user to purge
+   */
+  static async purgeOne(user: HydratedDocument<User>): Promise<void> {
+    const freetIds = (await FreetCollection.findAllByAuthorId(user._id)).map(freet => freet._id);
+
+    await FreetCollection.removeVotesBy(user._id);
+    await CommentCollection.removeVotesBy(user._id);
+    await CommentCollection.deleteMany(user._id);
+    await CommentCollection.deleteManyByFreets(freetIds);
+    await RevisionCollection.deleteManyByFreets(freetIds);
+    await DraftCollection.deleteMany(user._id);
+    await DraftCollection.deleteManyByFreets(freetIds);
+    await FreetCollection.deleteMany(user._id);
+    await UserCollection.removeSeenFreets(freetIds);
+    await FollowCollection.deleteMany(user._id);
+    await BlockCollection.deleteMany(user._id);
+    await ReputationCollection.deleteMany(user._id);
+    await SessionCollection.deleteMany(user._id);
+    await TokenCollection.deleteMany(user._id);
+    await RecoveryCodeCollection.deleteMany(user._id);
+    await AliasCollection.deleteMany(user._id);
+    await NotificationCollection.deleteMany(user._id);
+    await MessageCollection.deleteMany(user._id);
+    await UserCollection.deleteOne(user._id);
+  }
+}
+
+export default DeletionCollection;
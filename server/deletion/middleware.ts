@@ -0,0 +1,36 @@
+import type {Request, Response, NextFunction} from 'express';
+import DeletionCollection from './collection';
+
+// How often each instance checks for accounts to purge, in milliseconds
+const PURGE_INTERVAL = 60 * 1000;
+
+// When this instance last started a purge
+let lastPurge = 0;
+
+/**
+ * Purges accounts whose deletion grace period is over. There is no long-running
+ * process to schedule this on Vercel, so it runs before requests instead, at most
+ * once a minute per instance. A failed purge is passed on as an error and
+ * retried on the next request.
+ */
+const purgeExpiredAccounts = async (req: Request, res: Response, next: NextFunction) => {
+  if (Date.now() - lastPurge < PURGE_INTERVAL) {
+    next();
+    return;
+  }
+
+  lastPurge = Date.now();
+  try {
+    await DeletionCollection.purgeExpired();
+  } catch (error: unknown) {
+    lastPurge = 0;
+    next(error);
+    return;
+  }
+
+  next();
+};
+
+export {
+  purgeExpiredAccounts
+};
@@ -0,0 +1,95 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Draft} from './model';
+import DraftModel from './model';
+
+/**
+ * This file contains a class with functionality to interact with drafts
+ * stored in MongoDB. Drafts are only ever seen by their author, and are
+ * published by posting them as a freet or comment like any other.
+ */
+class DraftCollection {
+  /**
+   * Save a new draft
+   *
+   * @param {string} authorId - The id of the author of the draft
+   * @param {string} content - The content written so far
+   * @param {boolean} anonymous - Whether to post under the author's pseudonym
+   * @param {string} freetId - The id of the freet, for a draft of a comment on it
+   * @return {Promise<HydratedDocument<Draft>>} - The newly saved draft
+   */
+  static async addOne(authorId: Types.ObjectId | string, content: string, anonymous: boolean, freetId?: Types.ObjectId | string): Promise<HydratedDocument<Draft>> {
+    const draft = new DraftModel({authorId, freetId, content, anonymous, dateModified: new Date()});
+    await draft.save(); // Saves draft to MongoDB
+    return draft;
+  }
+
+  /**
+   * Find a draft by draftId
+   *
+   * @param {string} draftId - The id of the draft to find
+   * @return {Promise<HydratedDocument<Draft>> | Promise<null>} - The draft with the given draftId, if any
+   */
+  static async findOne(draftId: Types.ObjectId | string): Promise<HydratedDocument<Draft>> {
+    return DraftModel.findOne({_id: draftId});
+  }
+
+  /**
+   * Get a user's drafts, or only those of comments on one freet
+   *
+   * @param {string} authorId - The id of the author
+   * @param {string} freetId - The id of the freet, to only get drafts of comments on it
+   * @return {Promise<HydratedDocument<Draft>[]>} - The drafts, the most recently saved first
+   */
+  static async findAllByAuthorId(authorId: Types.ObjectId | string, freetId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Draft>>> {
+    return DraftModel.find({authorId, ...(freetId ? {freetId} : {})}).sort({dateModified: -1});
+  }
+
+  /**
+   * Save newer content to a draft
+   *
+   * @param {string} draftId - The id of the draft
+   * @param {string} content - The content written so far
+   * @param {boolean} anonymous - Whether to post under the author's pseudonym, if it changes
+   * @return {Promise<HydratedDocument<Draft>>} - The updated draft
+   */
+  static async updateOne(draftId: Types.ObjectId | string, content: string, anonymous?: boolean): Promise<HydratedDocument<Draft>> {
+    const draft = await DraftModel.findOne({_id: draftId});
+    draft.content = content;
+    if (anonymous !== undefined) {
+      draft.anonymous = anonymous;
+    }
+
+    draft.dateModified = new Date();
+    await draft.save();
+    return draft;
+  }
+
+  /**
+   * Delete a draft
+   *
+   * @param {string} draftId - The id of the draft
+   */
+  static async deleteOne(draftId: Types.ObjectId | string): Promise<void> {
+    await DraftModel.deleteOne({_id: draftId});
+  }
+
+  /**
+   * Delete all the drafts by the given author
+   *
+   * @param {string} authorId - The id of the author
+   */
+  static async deleteMany(authorId: Types.ObjectId | string): Promise<void> {
+    await DraftModel.deleteMany({authorId});
+  }
+
+  /**
+   * Delete the drafts of comments on the given freets
+   *
+   * @param {Types.ObjectId[]} freetIds - The ids of the freets
+   */
+  static async deleteManyByFreets(freetIds: Array<Types.ObjectId | string>): Promise<void> {
+    await DraftModel.deleteMany({freetId: {$in: freetIds}});
+  }
+}
+
+export default DraftCollection;
@@ -0,0 +1,92 @@
+import type {Request, Response, NextFunction} from 'express';
+import {Types} from 'mongoose';
+import DraftCollection from './collection';
+import FreetCollection from '../freet/collection';
+
+/**
+ * Checks if a draft with draftId in req.params exists and belongs to the current user.
+ * Drafts are private to their author, so other users' don't exist either.
+ */
+const isDraftExists = async (req: Request, res: Response, next: NextFunction) => {
+  const validFormat = Types.ObjectId.isValid(req.params.draftId);
+  const draft = validFormat ? await DraftCollection.findOne(req.params.draftId) : null;
+  if (!draft || draft.authorId.toString() !== req.session.userId) {
+    res.status(404).json({
+      error: {
+        draftNotFound: `Draft with draft ID ${req.params.draftId} does not exist.`
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the content of the draft in req.body is valid, i.e not a stream of empty
+ * spaces and not more than 5000 characters, the most a freet or comment can have
+ */
+const isValidDraftContent = (req: Request, res: Response, next: NextFunction) => {
+  const {content} = req.body as {content: unknown};
+  if (typeof content !== 'string' || !content.trim()) {
+    res.status(400).json({
+      error: 'Draft content must be at least one character long.'
+    });
+    return;
+  }
+
+  if (content.length > 5000) {
+    res.status(413).json({
+      error: 'Draft content must be no more than 5000 characters.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the optional freetId in req.body, given for a draft of a comment, is a freet that exists
+ */
+const isValidDraftFreet = async (req: Request, res: Response, next: NextFunction) => {
+  const {freetId} = req.body as {freetId?: unknown};
+  if (freetId === undefined) {
+    next();
+    return;
+  }
+
+  const validFormat = typeof freetId === 'string' && Types.ObjectId.isValid(freetId);
+  const freet = validFormat ? await FreetCollection.findOne(freetId) : null;
+  if (!freet) {
+    res.status(404).json({
+      error: {
+        freetNotFound: `Freet with freet ID ${freetId as string} does not exist.`
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the optional freet in req.query is a freet id
+ */
+const isValidQueriedFreetId = (req: Request, res: Response, next: NextFunction) => {
+  const {freet} = req.query;
+  if (freet !== undefined && !Types.ObjectId.isValid(freet as string)) {
+    res.status(400).json({
+      error: 'freet must be the id of a freet.'
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isDraftExists,
+  isValidDraftContent,
+  isValidDraftFreet,
+  isValidQueriedFreetId
+};
@@ -0,0 +1,59 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a Draft, a freet or comment
+ * that is still being written
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Draft on the backend
+export type Draft = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  authorId: Types.ObjectId;
+  freetId?: Types.ObjectId; // Set for a draft of a comment on this freet
+  content: string;
+  anonymous: boolean;
+  dateModified: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Drafts stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const DraftSchema = new Schema<Draft>({
+  // The user writing the draft
+  authorId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The freet a comment draft is on, unset for a freet draft
+  freetId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: false,
+    ref: 'Freet'
+  },
+  // The content written so far
+  content: {
+    type: String,
+    required: true
+  },
+  // Whether to post under the author's pseudonym
+  anonymous: {
+    type: Boolean,
+    default: false
+  },
+  // The date the draft was last saved
+  dateModified: {
+    type: Date,
+    required: true
+  }
+});
+
+DraftSchema.index({authorId: 1, dateModified: -1});
+DraftSchema.index({freetId: 1}, {sparse: true});
+
+const DraftModel = model<Draft>('Draft', DraftSchema);
+export default DraftModel;
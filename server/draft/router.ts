@@ -0,0 +1,123 @@
+import type {Request, Response} from 'express';
+import express from 'express';
+import DraftCollection from './collection';
+import * as userValidator from '../user/middleware';
+import * as freetValidator from '../freet/middleware';
+import * as draftValidator from './middleware';
+import * as util from './util';
+
+const router = express.Router();
+
+/**
+ * Get the signed in user's drafts. A draft is published by posting it through
+ * POST /api/freets, or POST /api/comments/:freetId for a comment draft, and
+ * then deleting it.
+ *
+ * @name GET /api/drafts?freet=id
+ *
+ * @param {string} [freet] - The id of a freet, to only get drafts of comments on it
+ * @return {DraftResponse[]} - The drafts, the most recently saved first
+ * @throws {403} - If the user is not logged in
+ * @throws {400} - If freet is not a freet id
+ */
+router.get(
+  '/',
+  [
+    userValidator.isUserLoggedIn,
+    draftValidator.isValidQueriedFreetId
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const drafts = await DraftCollection.findAllByAuthorId(userId, req.query.freet as string);
+    res.status(200).json(drafts.map(util.constructDraftResponse));
+  }
+);
+
+/**
+ * Save a new draft of a freet, or of a comment if freetId is given.
+ *
+ * @name POST /api/drafts
+ *
+ * @param {string} content - The content written so far
+ * @param {boolean} [anonymous] - Whether to post under the user's pseudonym, defaults to false
+ * @param {string} [freetId] - The id of the freet the comment is on
+ * @return {DraftResponse} - The created draft
+ * @throws {403} - If the user is not logged in
+ * @throws {400} - If the content is empty or a stream of empty spaces,
+ *                 or the anonymous flag is not a boolean
+ * @throws {404} - If freetId is given and is not a freet
+ * @throws {413} - If the content is more than 5000 characters long
+ */
+router.post(
+  '/',
+  [
+    userValidator.isUserLoggedIn,
+    draftValidator.isValidDraftContent,
+    freetValidator.isValidAnonymousFlag,
+    draftValidator.isValidDraftFreet
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const draft = await DraftCollection.addOne(userId, req.body.content, Boolean(req.body.anonymous), req.body.freetId);
+    res.status(201).json({
+      message: 'Your draft was saved successfully.',
+      draft: util.constructDraftResponse(draft)
+    });
+  }
+);
+
+/**
+ * Save newer content to a draft.
+ *
+ * @name PUT /api/drafts/:id
+ *
+ * @param {string} content - The content written so far
+ * @param {boolean} [anonymous] - Whether to post under the user's pseudonym
+ * @return {DraftResponse} - The updated draft
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the draftId is not one of the user's drafts
+ * @throws {400} - If the content is empty or a stream of empty spaces,
+ *                 or the anonymous flag is not a boolean
+ * @throws {413} - If the content is more than 5000 characters long
+ */
+router.put(
+  '/:draftId',
+  [
+    userValidator.isUserLoggedIn,
+    draftValidator.isDraftExists,
+    draftValidator.isValidDraftContent,
+    freetValidator.isValidAnonymousFlag
+  ],
+  async (req: Request, res: Response) => {
+    const draft = await DraftCollection.updateOne(req.params.draftId, req.body.content, req.body.anonymous);
+    res.status(200).json({
+      message: 'Your draft was saved successfully.',
+      draft: util.constructDraftResponse(draft)
+    });
+  }
+);
+
+/**
+ * Delete a draft.
+ *
+ * @name DELETE /api/drafts/:id
+ *
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the draftId is not one of the user's drafts
+ */
+router.delete(
+  '/:draftId',
+  [
+    userValidator.isUserLoggedIn,
+    draftValidator.isDraftExists
+  ],
+  async (req: Request, res: Response) => {
+    await DraftCollection.deleteOne(req.params.draftId);
+    res.status(200).json({
+      message: 'Your draft was deleted successfully.'
+    });
+  }
+);
+
+export {router as draftRouter};
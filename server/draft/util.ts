@@ -0,0 +1,41 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {Draft} from './model';
+
+// Update this if you add a property to the Draft type!
+type DraftResponse = {
+  _id: string;
+  freetId?: string; // The freet a comment draft is on, missing for a freet draft
+  content: string;
+  anonymous: boolean;
+  dateModified: string;
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw Draft object from the database into an object
+ * with all the information needed by the frontend
+ *
+ * @param {HydratedDocument<Draft>} draft - A draft
+ * @returns {DraftResponse} - The draft object formatted for the frontend
+ */
+const constructDraftResponse = (draft: HydratedDocument<Draft>): DraftResponse => ({
+  _id: draft._id.toString(),
+  freetId: draft.freetId?.toString(),
+  content: draft.content,
+  anonymous: draft.anonymous,
+  dateModified: formatDate(draft.dateModified)
+});
+
+export type {DraftResponse};
+
+export {
+  constructDraftResponse
+};
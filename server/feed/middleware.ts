@@ -0,0 +1,39 @@
+import type {Request, Response, NextFunction} from 'express';
+import * as feedUtil from './util';
+
+/**
+ * Checks if the before, after and limit in req.query are valid, i.e at most
+ * one of before and after is given, it is a feed cursor, and limit is a whole
+ * number from 1 to 50
+ */
+const isValidFeedPage = (req: Request, res: Response, next: NextFunction) => {
+  const {before, after, limit} = req.query;
+  if (before !== undefined && after !== undefined) {
+    res.status(400).json({
+      error: 'Only one of before and after can be given.'
+    });
+    return;
+  }
+
+  const cursor = before ?? after;
+  if (cursor !== undefined && (typeof cursor !== 'string' || !feedUtil.decodeCursor(cursor))) {
+    res.status(400).json({
+      error: `${before === undefined ? 'after' : 'before'} must be a cursor from a previous page.`
+    });
+    return;
+  }
+
+  const pageSize = Number(limit);
+  if (limit !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > feedUtil.MAX_PAGE_SIZE)) {
+    res.status(400).json({
+      error: `limit must be a whole number from 1 to ${feedUtil.MAX_PAGE_SIZE}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidFeedPage
+};
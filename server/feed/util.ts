@@ -0,0 +1,123 @@
+import type {Request} from 'express';
+import type {FilterQuery, Types} from 'mongoose';
+
+/**
+ * This file contains helpers for cursor-based pagination of feeds. Feeds are
+ * sorted by dateModified, most recent first, with _id breaking ties, and a
+ * cursor points at one item in that order.
+ */
+
+// The most items returned in one page of a feed
+export const MAX_PAGE_SIZE = 50;
+
+// The number of items returned when no limit is given
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Anything that can appear in a feed
+type FeedItem = {
+  _id: Types.ObjectId;
+  dateModified: Date;
+};
+
+// The page of a feed to get: items older than before, or newer than after
+export type FeedPage = {
+  before?: string; // Cursor of the item to start after, going back in time
+  after?: string; // Cursor of the item to start after, going forward in time
+  limit: number;
+};
+
+/**
+ * Get the page of a feed asked for in a query string, already checked by isValidFeedPage
+ *
+ * @param {Request['query']} query - The query string of the request
+ * @return {FeedPage} - The page to get
+ */
+const getFeedPage = (query: Request['query']): FeedPage => ({
+  before: query.before as string,
+  after: query.after as string,
+  limit: query.limit ? Number(query.limit) : DEFAULT_PAGE_SIZE
+});
+
+/**
+ * Make the cursor pointing at an item
+ *
+ * @param {FeedItem} item - An item in a feed
+ * @return {string} - The cursor, the item's dateModified as a timestamp and its id
+ */
+const encodeCursor = (item: FeedItem): string => `${item.dateModified.getTime()}_${item._id.toString()}`;
+
+/**
+ * Read a cursor made by encodeCursor
+ *
+ * @param {string} cursor - A cursor
+ * @return {{dateModified: Date, _id: string} | undefined} - What the cursor points at, if it is well formed
+ */
+const decodeCursor = (cursor: string): {dateModified: Date; _id: string} | undefined => {
+  const match = /^(\d+)_([a-f\d]{24})$/i.exec(cursor);
+  return match ? {dateModified: new Date(Number(match[1])), _id: match[2]} : undefined;
+};
+
+/**
+ * Build the part of a query that only matches items on a page
+ *
+ * @param {FeedPage} page - The page to get
+ * @return {FilterQuery<FeedItem>} - The filter to add to the query
+ */
+const pageFilter = (page: FeedPage): FilterQuery<FeedItem> => {
+  const cursor = decodeCursor(page.before ?? page.after ?? '');
+  if (!cursor) {
+    return {};
+  }
+
+  const operator = page.before ? '$lt' : '$gt';
+  return {
+    $or: [
+      {dateModified: {[operator]: cursor.dateModified}},
+      {dateModified: cursor.dateModified, _id: {[operator]: cursor._id}}
+    ]
+  };
+};
+
+/**
+ * Get the order to read items in for a page. Newer pages are read oldest
+ * first so that the items right after the cursor come back.
+ *
+ * @param {FeedPage} page - The page to get
+ * @return {Record<string, 1 | -1>} - The sort to use in the query
+ */
+const pageSort = (page: FeedPage): Record<string, 1 | -1> => (
+  page.after ? {dateModified: 1, _id: 1} : {dateModified: -1, _id: -1}
+);
+
+/**
+ * Turn the items read for a page into the page itself. The query should ask
+ * for one more item than the limit, so that we know if there are more.
+ *
+ * @param {ItemModel[]} items - The items read with pageFilter and pageSort, limit + 1 of them at most
+ * @param {FeedPage} page - The page that was read
+ * @return {{items: ItemModel[], next?: string, previous?: string}} - The items, most recent first, the
+ *                      cursor to pass as before to get older items if there are any, and the
+ *                      cursor to pass as after to check for newer items
+ */
+const constructFeedPage = <ItemModel extends FeedItem>(items: ItemModel[], page: FeedPage): {items: ItemModel[]; next?: string; previous?: string} => {
+  const pageItems = items.slice(0, page.limit);
+  if (page.after) {
+    pageItems.reverse();
+  }
+
+  // Newer pages always have older items: at least the one the cursor points at
+  const hasOlder = page.after ? pageItems.length > 0 : items.length > page.limit;
+  return {
+    items: pageItems,
+    next: hasOlder ? encodeCursor(pageItems[pageItems.length - 1]) : undefined,
+    previous: pageItems.length ? encodeCursor(pageItems[0]) : page.after
+  };
+};
+
+export {
+  getFeedPage,
+  decodeCursor,
+  pageFilter,
+  pageSort,
+  constructFeedPage
+};
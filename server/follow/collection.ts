@@ -0,0 +1,163 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Follow, FollowStatus} from './model';
+import FollowModel from './model';
+import UserCollection from '../user/collection';
+import NotificationCollection from '../notification/collection';
+
+// Matches accepted follows; follows made before follow requests existed have no status
+const ACCEPTED = {status: {$ne: 'pending'}};
+
+/**
+ * This file contains a class with functionality to interact with follows stored
+ * in MongoDB. Follows reference users by id, so they survive username changes.
+ * Only accepted follows count as following someone; pending ones are follow
+ * requests to private accounts.
+ */
+class FollowCollection {
+  /**
+   * Make a user follow another user, or ask to, and let the other user know
+   *
+   * @param {string} followerId - The id of the user who follows
+   * @param {string} followeeId - The id of the user to follow
+   * @param {FollowStatus} status - pending to request the follow; defaults to accepted
+   * @return {Promise<HydratedDocument<Follow>>} - The newly created follow
+   */
+  static async addOne(followerId: Types.ObjectId | string, followeeId: Types.ObjectId | string, status: FollowStatus = 'accepted'): Promise<HydratedDocument<Follow>> {
+    const follow = new FollowModel({followerId, followeeId, status, dateCreated: new Date()});
+    await follow.save(); // Saves follow to MongoDB
+    await NotificationCollection.addOne({userId: followeeId, actorId: followerId, kind: status === 'pending' ? 'followRequest' : 'follow'});
+    return follow.populate(['followerId', 'followeeId']);
+  }
+
+  /**
+   * Find the follow between two users, accepted or pending
+   *
+   * @param {string} followerId - The id of the user who follows
+   * @param {string} followeeId - The id of the user being followed
+   * @return {Promise<HydratedDocument<Follow>> | Promise<null>} - The follow, if any
+   */
+  static async findOne(followerId: Types.ObjectId | string, followeeId: Types.ObjectId | string): Promise<HydratedDocument<Follow>> {
+    return FollowModel.findOne({followerId, followeeId});
+  }
+
+  /**
+   * Get the follows of everyone following a user, most recent first
+   *
+   * @param {string} followeeId - The id of the followed user
+   * @return {Promise<HydratedDocument<Follow>[]>} - The follows of the user's followers
+   */
+  static async findFollowers(followeeId: Types.ObjectId | string): Promise<Array<HydratedDocument<Follow>>> {
+    return FollowModel.find({followeeId, ...ACCEPTED}).sort({dateCreated: -1}).populate(['followerId', 'followeeId']);
+  }
+
+  /**
+   * Get the follows of everyone a user follows, most recent first
+   *
+   * @param {string} followerId - The id of the following user
+   * @return {Promise<HydratedDocument<Follow>[]>} - The follows of the users they follow
+   */
+  static async findFollowing(followerId: Types.ObjectId | string): Promise<Array<HydratedDocument<Follow>>> {
+    return FollowModel.find({followerId, ...ACCEPTED}).sort({dateCreated: -1}).populate(['followerId', 'followeeId']);
+  }
+
+  /**
+   * Get the ids of everyone a user follows
+   *
+   * @param {string} followerId - The id of the following user
+   * @return {Promise<Types.ObjectId[]>} - The ids of the users they follow
+   */
+  static async findFollowingIds(followerId: Types.ObjectId | string): Promise<Types.ObjectId[]> {
+    const follows = await FollowModel.find({followerId, ...ACCEPTED});
+    return follows.map(follow => follow.followeeId);
+  }
+
+  /**
+   * Count a user's followers
+   *
+   * @param {string} followeeId - The id of the followed user
+   * @return {Promise<number>} - The number of users following them
+   */
+  static async countFollowers(followeeId: Types.ObjectId | string): Promise<number> {
+    return FollowModel.countDocuments({followeeId, ...ACCEPTED});
+  }
+
+  /**
+   * Count the users a user follows
+   *
+   * @param {string} followerId - The id of the following user
+   * @return {Promise<number>} - The number of users they follow
+   */
+  static async countFollowing(followerId: Types.ObjectId | string): Promise<number> {
+    return FollowModel.countDocuments({followerId, ...ACCEPTED});
+  }
+
+  /**
+   * Get the follow requests waiting for a user's approval, oldest first
+   *
+   * @param {string} followeeId - The id of the private account
+   * @return {Promise<HydratedDocument<Follow>[]>} - The pending follows
+   */
+  static async findRequests(followeeId: Types.ObjectId | string): Promise<Array<HydratedDocument<Follow>>> {
+    return FollowModel.find({followeeId, status: 'pending'}).sort({dateCreated: 1}).populate(['followerId', 'followeeId']);
+  }
+
+  /**
+   * Get the ids of the private accounts whose freets a user can't see, which
+   * are all of them except the user's own and those that approved the user
+   *
+   * @param {string} viewerId - The id of the user viewing freets, if they are signed in
+   * @return {Promise<Types.ObjectId[]>} - The ids of the private accounts hidden from the user
+   */
+  static async findInaccessibleUserIds(viewerId?: Types.ObjectId | string): Promise<Types.ObjectId[]> {
+    const privateIds = await UserCollection.findPrivateIds();
+    if (!viewerId) {
+      return privateIds;
+    }
+
+    const followingIds = await this.findFollowingIds(viewerId);
+    return privateIds.filter(id => !id.equals(viewerId) && !followingIds.some(followeeId => followeeId.equals(id)));
+  }
+
+  /**
+   * Approve a follow request
+   *
+   * @param {string} followerId - The id of the user who asked to follow
+   * @param {string} followeeId - The id of the private account
+   * @return {Promise<HydratedDocument<Follow>>} - The accepted follow
+   */
+  static async acceptOne(followerId: Types.ObjectId | string, followeeId: Types.ObjectId | string): Promise<HydratedDocument<Follow>> {
+    return FollowModel.findOneAndUpdate({followerId, followeeId}, {$set: {status: 'accepted'}}, {new: true}).populate(['followerId', 'followeeId']);
+  }
+
+  /**
+   * Approve every follow request to a user, for when they make their account public
+   *
+   * @param {string} followeeId - The id of the user
+   */
+  static async acceptAll(followeeId: Types.ObjectId | string): Promise<void> {
+    await FollowModel.updateMany({followeeId, status: 'pending'}, {$set: {status: 'accepted'}});
+  }
+
+  /**
+   * Stop a user from following another user, or take back or turn down a follow request
+   *
+   * @param {string} followerId - The id of the user who follows
+   * @param {string} followeeId - The id of the user to unfollow
+   * @return {Promise<Boolean>} - true if the follow has been deleted, false otherwise
+   */
+  static async deleteOne(followerId: Types.ObjectId | string, followeeId: Types.ObjectId | string): Promise<boolean> {
+    const follow = await FollowModel.deleteOne({followerId, followeeId});
+    return follow.deletedCount > 0;
+  }
+
+  /**
+   * Delete every follow from or to a user
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await FollowModel.deleteMany({$or: [{followerId: userId}, {followeeId: userId}]});
+  }
+}
+
+export default FollowCollection;
@@ -0,0 +1,83 @@
+import type {Request, Response, NextFunction} from 'express';
+import FollowCollection from '../follow/collection';
+import UserCollection from '../user/collection';
+
+/**
+ * Checks if the user named by user in req.body exists and is not the current user
+ */
+const isValidFollowee = async (req: Request, res: Response, next: NextFunction) => {
+  const {user: username} = req.body as {user: string};
+  const usernameRegex = /^\w+$/i;
+  const followee = usernameRegex.test(username) ? await UserCollection.findOneByUsername(username) : null;
+  if (!followee || followee.dateDeleted) {
+    res.status(404).json({
+      error: `A user with username ${username} does not exist.`
+    });
+    return;
+  }
+
+  if (followee._id.toString() === req.session.userId) {
+    res.status(400).json({
+      error: 'You cannot follow yourself.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the current user does not already follow the user named by user in req.body
+ */
+const isNotAlreadyFollowing = async (req: Request, res: Response, next: NextFunction) => {
+  const followee = await UserCollection.findOneByUsername(req.body.user);
+  const follow = await FollowCollection.findOne(req.session.userId, followee._id);
+  if (follow) {
+    res.status(409).json({
+      error: follow.status === 'pending' ? `You already asked to follow ${followee.username}.` : `You already follow ${followee.username}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the current user follows, or asked to follow, the user named by user in req.body
+ */
+const isFollowing = async (req: Request, res: Response, next: NextFunction) => {
+  const followee = await UserCollection.findOneByUsername(req.body.user);
+  const follow = await FollowCollection.findOne(req.session.userId, followee._id);
+  if (!follow) {
+    res.status(404).json({
+      error: `You do not follow ${followee.username}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the user named by username in req.params asked to follow the current user
+ */
+const isFollowRequestExists = async (req: Request, res: Response, next: NextFunction) => {
+  const usernameRegex = /^\w+$/i;
+  const follower = usernameRegex.test(req.params.username) ? await UserCollection.findOneByUsername(req.params.username) : null;
+  const follow = follower ? await FollowCollection.findOne(follower._id, req.session.userId) : null;
+  if (!follow || follow.status !== 'pending') {
+    res.status(404).json({
+      error: `${req.params.username} has not asked to follow you.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidFollowee,
+  isNotAlreadyFollowing,
+  isFollowing,
+  isFollowRequestExists
+};
@@ -0,0 +1,67 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+import type {User} from '../user/model';
+
+/**
+ * This file defines the properties stored in a Follow, a record that one
+ * user follows another, or asked to follow a private account
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Follows of private accounts stay pending until the followee approves them
+export type FollowStatus = 'pending' | 'accepted';
+
+// Type definition for Follow on the backend
+export type Follow = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  followerId: Types.ObjectId;
+  followeeId: Types.ObjectId;
+  status: FollowStatus;
+  dateCreated: Date;
+};
+
+export type PopulatedFollow = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  followerId: User;
+  followeeId: User;
+  status: FollowStatus;
+  dateCreated: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Follows stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const FollowSchema = new Schema<Follow>({
+  // The user who follows
+  followerId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The user being followed
+  followeeId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // Whether the follow is accepted or still waits for the followee's approval
+  status: {
+    type: String,
+    enum: ['pending', 'accepted'],
+    default: 'accepted'
+  },
+  // The date the follow started
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+// A user can follow another user at most once
+FollowSchema.index({followerId: 1, followeeId: 1}, {unique: true});
+FollowSchema.index({followeeId: 1});
+
+const FollowModel = model<Follow>('Follow', FollowSchema);
+export default FollowModel;
@@ -1,7 +1,19 @@
-import type {HydratedDocument, Types} from 'mongoose';
+import type {FilterQuery, HydratedDocument, Types} from 'mongoose';
 import type {Freet} from './model';
+import type {FeedPage} from '../feed/util';
 import FreetModel from './model';
 import UserCollection from '../user/collection';
+import FollowCollection from '../follow/collection';
+import ReputationCollection from '../reputation/collection';
+import BlockCollection from '../block/collection';
+import NotificationCollection from '../notification/collection';
+import MentionCollection from '../mention/collection';
+import RevisionCollection from '../revision/collection';
+import {pageFilter, pageSort} from '../feed/util';
+import {findTags, normalizeTag} from '../tag/util';
+
+// The references filled in on the freets we return
+const POPULATED_PATHS = ['authorId', 'mentions.userId'];
 
 /**
  * This files contains a class that has the functionality to explore freets
@@ -13,202 +25,361 @@ import UserCollection from '../user/collection';
  */
 class FreetCollection {
   /**
-   * Add a freet to the collection
+   * Add a freet to the collection, notifying everyone it mentions. A freet
+   * scheduled for later is kept out of every feed, and only notifies anyone,
+   * once it is published.
    *
    * @param {string} authorId - The id of the author of the freet
    * @param {string} content - The id of the content of the freet
+   * @param {boolean} anonymous - Whether to post under the author's pseudonym; defaults to their NighthawkMode
+   * @param {Date} publishAt - When to publish the freet, if not now
    * @return {Promise<HydratedDocument<Freet>>} - The newly created freet
    */
-  static async addOne(authorId: Types.ObjectId | string, content: string): Promise<HydratedDocument<Freet>> {
-    const date = new Date();
+  static async addOne(authorId: Types.ObjectId | string, content: string, anonymous?: boolean, publishAt?: Date): Promise<HydratedDocument<Freet>> {
+    const date = publishAt ?? new Date();
     const user = await UserCollection.findOneByUserId(authorId);
-    let anon = false;
+    const anon = anonymous ?? user.nighthawkMode;
     let initUpvotes = 0;
     const initUpvoters:Array<any> = [];
     const commentArray:Array<any> = [];
-    if (user.username == 'Anonymous') anon = true;
+    const mentions = publishAt ? [] : await MentionCollection.parse(content);
     const freet = new FreetModel({
       authorId,
       dateCreated: date,
       content,
+      mentions,
+      tags: publishAt ? [] : findTags(content),
       dateModified: date,
+      publishAt,
       anonymous: anon,
       comments: commentArray,
       upvoters: initUpvoters,
       upvotes: initUpvotes,
     });
     await freet.save(); // Saves freet to MongoDB
-    return freet.populate('authorId');
+    if (!publishAt) {
+      await NotificationCollection.notifyMentions({actorId: authorId, mentions, freetId: freet._id, anonymous: anon});
+    }
+
+    return freet.populate(POPULATED_PATHS);
+  }
+
+  /**
+   * Publish every scheduled freet whose time has come, notifying everyone
+   * they mention. Feeds call this before they are read, so freets go live
+   * without anything running in the background.
+   */
+  static async publishDue(): Promise<void> {
+    const due = await FreetModel.find({publishAt: {$lte: new Date()}}, {_id: 1});
+    await Promise.all(due.map(async ({_id}) => {
+      // Claiming the freet first keeps two feeds read at once from both publishing it
+      const freet = await FreetModel.findOneAndUpdate({_id, publishAt: {$ne: null}}, {$unset: {publishAt: 1}}, {new: true});
+      if (!freet) {
+        return;
+      }
+
+      freet.mentions = await MentionCollection.parse(freet.content);
+      freet.tags = findTags(freet.content);
+      await freet.save();
+      await NotificationCollection.notifyMentions({actorId: freet.authorId, mentions: freet.mentions, freetId: freet._id, anonymous: freet.anonymous});
+    }));
   }
 
   /**
-   * Find a freet by freetId
+   * Find a published freet by freetId
    *
    * @param {string} freetId - The id of the freet to find
    * @return {Promise<HydratedDocument<Freet>> | Promise<null> } - The freet with the given freetId, if any
    */
   static async findOne(freetId: Types.ObjectId | string): Promise<HydratedDocument<Freet>> {
-    return FreetModel.findOne({_id: freetId}).populate('authorId');
+    return FreetModel.findOne({_id: freetId, publishAt: null}).populate(POPULATED_PATHS);
   }
 
   /**
-   * Get all the freets in the database
+   * Find a freet that is scheduled and not yet published by freetId
    *
-   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   * @param {string} freetId - The id of the freet to find
+   * @return {Promise<HydratedDocument<Freet>> | Promise<null> } - The scheduled freet with the given freetId, if any
    */
-  static async findAll(): Promise<Array<HydratedDocument<Freet>>> {
-    // Retrieves freets and sorts them from most to least recent
-    return FreetModel.find({}).sort({dateModified: -1}).populate('authorId');
+  static async findOneScheduled(freetId: Types.ObjectId | string): Promise<HydratedDocument<Freet>> {
+    return FreetModel.findOne({_id: freetId, publishAt: {$ne: null}}).populate(POPULATED_PATHS);
   }
 
   /**
-   * Get all the freets in the database from the author on a certain date
+   * Get the freets an author scheduled that are not yet published
    *
-   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   * @param {string} authorId - The id of the author
+   * @return {Promise<HydratedDocument<Freet>[]>} - The scheduled freets, the soonest to go live first
    */
-   static async findAllOnThisDate(username: string): Promise<Array<HydratedDocument<Freet>>> {
-    const author = await UserCollection.findOneByUsername(username);
-    const authorFreetArray = await FreetModel.find({authorId: author._id}).populate('authorId');
-    const onThisDayArray = [];
-    const date = new Date();
-    for (const freet of authorFreetArray)
-    {
-      const dateCreated = freet.dateCreated;
-      if (dateCreated.getDate() == date.getDate() && dateCreated.getMonth() == date.getMonth() && dateCreated.getFullYear() != date.getFullYear())
-      {
-        onThisDayArray.push(freet);
-      }
-    }
-    return onThisDayArray;
+  static async findAllScheduled(authorId: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
+    await this.publishDue();
+    return FreetModel.find({authorId, publishAt: {$ne: null}}).sort({publishAt: 1}).populate(POPULATED_PATHS);
   }
 
   /**
-   * Get all the freets in the database that tag a certain user
+   * Get a page of all the freets in the database, except those by users the viewer blocked or muted,
+   * those by private accounts that haven't approved the viewer and those hidden by moderators
    *
-   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   * @param {FeedPage} page - The page to get
+   * @param {string} viewerId - The id of the user viewing the freets, if they are signed in
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
    */
-   static async findAllTag(username: string): Promise<Array<HydratedDocument<Freet>>> {
-    const freetArray = await FreetModel.find({}).sort({dateModified: -1}).populate('authorId');
-    const taggedUserArray = [];
-    for (const freet of freetArray)
-    {
-      const text = freet.content;
-      const tag = "@" + username + " ";
-      // this is a temporary fix for the @seok vs @seok1 example: currently works unless freet ends in the tag
-      // also currently shows self-freets -- get rid of these
-      // might want to think about being able to remove freets from important posts and insert them into normal feed?
-      if (text.includes(tag))
-      {
-        taggedUserArray.push(freet);
-      }
-    }
-    return taggedUserArray;
+  static async findAll(page: FeedPage, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    return this.findPage({authorId: {$nin: [...hiddenIds, ...privateIds]}, hidden: {$ne: true}}, page);
   }
 
   /**
-   * Get all of the seen freets for a certain user.
+   * Find freets by their ids
    *
-   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   * @param {Types.ObjectId[]} freetIds - The ids of the freets to find
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets that exist, in any order
    */
-   static async getSeenFreets(username: string): Promise<Array<HydratedDocument<Freet>>> {
-    const user = await UserCollection.findOneByUsername(username);
-    const emptyArray:Array<HydratedDocument<Freet>> = [];
-    if (user) return user.seen; // might be a terrible idea because of aliasing?
-    else {
-      return emptyArray;
-    }
+  static async findAllByIds(freetIds: Types.ObjectId[]): Promise<Array<HydratedDocument<Freet>>> {
+    return FreetModel.find({_id: {$in: freetIds}, publishAt: null}).populate(POPULATED_PATHS);
   }
 
   /**
-   * Get all of the freets from freeters that the user follows.
+   * Find the ids of the freets a user can't see: those hidden by moderators,
+   * those not yet published, and those by users the viewer blocked or muted or
+   * by private accounts that haven't approved the viewer
    *
-   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   * @param {string} viewerId - The id of the viewer, if they are signed in
+   * @return {Promise<Types.ObjectId[]>} - The ids of the freets the viewer can't see
    */
-   static async getFollowingFreets(username: string): Promise<Array<HydratedDocument<Freet>>> {
-    const user = await UserCollection.findOneByUsername(username);
-    let followingFreets:Array<any> = []; // fix this lol
-    if (user)
-    {
-      console.log('user: ' + user);
-      for (const name of user.following)
-      {
-        console.log(name);
-        const followFreet = await this.findAllByUsername(name);
-        console.log(followFreet);
-        console.log('-----------------------------');
-        followingFreets = followingFreets.concat(followFreet);
-      }      
+  static async findUnviewableIds(viewerId?: Types.ObjectId | string): Promise<Types.ObjectId[]> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    return FreetModel.find({
+      $or: [{hidden: true}, {publishAt: {$ne: null}}, {authorId: {$in: [...hiddenIds, ...privateIds]}}]
+    }).distinct('_id');
+  }
+
+  /**
+   * Get the freets an author posted on today's day and month in earlier
+   * years, in UTC. Anonymous freets are left out, so they are never tied to
+   * the author's username, and so is everything by a private account that
+   * hasn't approved the viewer.
+   *
+   * @param {string} username - The username of the author
+   * @param {string} viewerId - The id of the user viewing the freets, if they are signed in
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets, most recent first
+   */
+  static async findAllOnThisDate(username: string, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
+    const author = await UserCollection.findOneByUsername(username);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    if (privateIds.some(id => id.equals(author._id))) {
+      return [];
     }
-    console.log(followingFreets);
 
-    for (const freet of followingFreets)
-    {
-      if (freet.anonymous == true)
-      {
-        const index = followingFreets.indexOf(freet, 0);
-        if (index > -1) {
-          followingFreets.splice(index, 1);
-        }
+    await this.publishDue();
+    const today = new Date();
+    return FreetModel.find({
+      authorId: author._id,
+      anonymous: false,
+      hidden: {$ne: true},
+      publishAt: null,
+      $expr: {
+        $and: [
+          {$eq: [{$dayOfMonth: '$dateCreated'}, today.getUTCDate()]},
+          {$eq: [{$month: '$dateCreated'}, today.getUTCMonth() + 1]},
+          {$lt: [{$year: '$dateCreated'}, today.getUTCFullYear()]}
+        ]
       }
-    }
+    }).sort({dateCreated: -1}).populate(POPULATED_PATHS);
+  }
+
+  /**
+   * Get a page of the freets in the database that tag a certain user, under
+   * their current or any old username, except those by users the tagged user
+   * blocked or muted and those by private accounts that haven't approved them
+   *
+   * @param {string} userId - The id of the tagged user
+   * @param {FeedPage} page - The page to get
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
+   */
+  static async findAllTag(userId: Types.ObjectId | string, page: FeedPage): Promise<Array<HydratedDocument<Freet>>> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(userId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(userId);
+    return this.findPage({'mentions.userId': userId, authorId: {$nin: [...hiddenIds, ...privateIds]}, hidden: {$ne: true}}, page);
+  }
+
+  /**
+   * Get a page of the freets with a tag, except those by users the viewer
+   * blocked or muted, those by private accounts that haven't approved the
+   * viewer and those hidden by moderators
+   *
+   * @param {string} tag - The tag, with or without the #, in any case
+   * @param {FeedPage} page - The page to get
+   * @param {string} viewerId - The id of the user viewing the freets, if they are signed in
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
+   */
+  static async findAllByTag(tag: string, page: FeedPage, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    return this.findPage({tags: normalizeTag(tag), authorId: {$nin: [...hiddenIds, ...privateIds]}, hidden: {$ne: true}}, page);
+  }
+
+  /**
+   * Get a page of the seen freets for a certain user, except those by private
+   * accounts that no longer approve them
+   *
+   * @param {string} userId - The id of the user
+   * @param {FeedPage} page - The page to get
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
+   */
+  static async getSeenFreets(userId: Types.ObjectId | string, page: FeedPage): Promise<Array<HydratedDocument<Freet>>> {
+    const user = await UserCollection.findOneByUserId(userId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(userId);
+    return this.findPage({_id: {$in: user.seen}, authorId: {$nin: privateIds}, hidden: {$ne: true}}, page);
+  }
 
-    return followingFreets;
+  /**
+   * Get a page of the freets from freeters that the user follows, leaving out
+   * the ones they posted anonymously and those by users the user muted.
+   * Only accepted follows count, so private accounts show up once they
+   * approve the user.
+   *
+   * @param {string} userId - The id of the user
+   * @param {FeedPage} page - The page to get
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
+   */
+  static async getFollowingFreets(userId: Types.ObjectId | string, page: FeedPage): Promise<Array<HydratedDocument<Freet>>> {
+    const followingIds = await FollowCollection.findFollowingIds(userId);
+    const hiddenIds = await BlockCollection.findHiddenUserIds(userId);
+    return this.findPage({authorId: {$in: followingIds, $nin: hiddenIds}, anonymous: false, hidden: {$ne: true}}, page);
   }
 
-    /**
-   * Get the shortened text for a freet.
+  /**
+   * Get a page of the published freets matching a filter, publishing any
+   * that are due first. One more freet than the limit is read, so that the
+   * caller knows if there is another page.
    *
+   * @param {FilterQuery<Freet>} filter - The freets to choose from
+   * @param {FeedPage} page - The page to get
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
+   */
+  static async findPage(filter: FilterQuery<Freet>, page: FeedPage): Promise<Array<HydratedDocument<Freet>>> {
+    await this.publishDue();
+    return FreetModel.find({...filter, publishAt: null, ...pageFilter(page)}).sort(pageSort(page)).limit(page.limit + 1).populate(POPULATED_PATHS);
+  }
+
+  /**
+   * Get the shortened text for a freet. Scheduled freets aren't found until
+   * they are published.
+   *
+   * @param {string} freetId - The id of the freet
    * @return {Promise<string>} - A string of the freet's content.
    */
-     static async shortenedFreet(freetId: Types.ObjectId | string): Promise<string> {
-      // maybe this shouldn't just return a string?
-      const freet = await FreetModel.findOne({_id: freetId}).populate('authorId');
-      const content = freet.content;
-      if (content.length > 300) 
-      {
-        return content.slice(0, 300);
-      }
-      return content;
+  static async shortenedFreet(freetId: Types.ObjectId | string): Promise<string> {
+    // Maybe this shouldn't just return a string?
+    const freet = await FreetModel.findOne({_id: freetId, publishAt: null});
+    const {content} = freet;
+    if (content.length > 300) {
+      return content.slice(0, 300);
     }
 
+    return content;
+  }
+
   /**
-   * User upvotes a post.
+   * User upvotes a post, or takes back their upvote if they already gave one.
+   * The change is recorded in the author's reputation ledger, and the author
+   * is notified of new upvotes.
    *
-   * @param {string} username - The user that upvotes the freet
+   * @param {Types.ObjectId} voterId - The id of the user that upvotes the freet
    * @param {string} freetId - The id of the freet to find
-   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the updated reputation.
+   * @return {Promise<HydratedDocument<Freet>> | Promise<null>} - The freet with the updated upvotes.
    */
-   static async upvotePost(username: string, freetId: Types.ObjectId | string): Promise<HydratedDocument<Freet>> {
+  static async upvotePost(voterId: Types.ObjectId, freetId: Types.ObjectId | string): Promise<HydratedDocument<Freet>> {
     const freet = await this.findOne(freetId);
-    if (freet && freet.upvoters.includes(username))
+    if (!freet) {
+      return freet;
+    }
+
+    const upvotesBefore = freet.upvotes;
+    if (freet.upvoters.includes(voterId))
     {
       freet.upvotes -= 1;
-      const ix = freet.upvoters.indexOf(username);
+      const ix = freet.upvoters.indexOf(voterId);
       freet.upvoters.splice(ix, 1);
       await freet.save();
     }
-    else if (freet && !(freet.upvoters.includes(username)))
+    else
     {
       freet.upvotes += 1;
-      freet.upvoters.push(username);
+      freet.upvoters.push(voterId);
       await freet.save();
+      await NotificationCollection.addOne({userId: freet.authorId._id, actorId: voterId, kind: 'upvote', freetId: freet._id});
     }
+
+    await ReputationCollection.addOne({
+      userId: freet.authorId._id,
+      actorId: voterId,
+      source: 'freetUpvote',
+      sourceId: freet._id,
+      change: freet.upvotes - upvotesBefore
+    });
     return freet;
   }
 
   /**
-   * Get all the freets in by given author
+   * Get a page of the freets by given author. Freets they posted anonymously are
+   * left out so that they can't be traced back to the author. If the author's
+   * account is private, only they and their approved followers see any freets.
    *
    * @param {string} username - The username of author of the freets
-   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   * @param {FeedPage} page - The page to get
+   * @param {string} viewerId - The id of the user viewing the freets, if they are signed in
+   * @return {Promise<HydratedDocument<Freet>[]>} - The freets on the page, and one more if there is any
    */
-  static async findAllByUsername(username: string): Promise<Array<HydratedDocument<Freet>>> {
+  static async findAllByUsername(username: string, page: FeedPage, viewerId?: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
     const author = await UserCollection.findOneByUsername(username);
-    return FreetModel.find({authorId: author._id}).populate('authorId');
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    if (privateIds.some(id => id.equals(author._id))) {
+      return [];
+    }
+
+    return this.findPage({authorId: author._id, anonymous: false, hidden: {$ne: true}}, page);
+  }
+
+  /**
+   * Count the freets an author has posted under their own name. Anonymous,
+   * hidden and scheduled freets are left out.
+   *
+   * @param {string} authorId - The id of the author of the freets
+   * @return {Promise<number>} - The number of public freets by the author
+   */
+  static async countByAuthorId(authorId: Types.ObjectId | string): Promise<number> {
+    await this.publishDue();
+    return FreetModel.countDocuments({authorId, anonymous: false, hidden: {$ne: true}, publishAt: null});
+  }
+
+  /**
+   * Get every freet by an author, including anonymous ones, most recent first.
+   * Only use this on behalf of the author themselves.
+   *
+   * @param {string} authorId - The id of the author of the freets
+   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   */
+  static async findAllByAuthorId(authorId: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
+    return FreetModel.find({authorId}).sort({dateCreated: -1}).populate(POPULATED_PATHS);
+  }
+
+  /**
+   * Get every freet a user upvoted
+   *
+   * @param {string} voterId - The id of the voter
+   * @return {Promise<HydratedDocument<Freet>[]>} - An array of the upvoted freets
+   */
+  static async findAllUpvotedBy(voterId: Types.ObjectId | string): Promise<Array<HydratedDocument<Freet>>> {
+    return FreetModel.find({upvoters: voterId});
   }
 
   /**
-   * Update a freet with the new content
+   * Update a freet with the new content, keeping the old content as a
+   * revision and notifying everyone newly mentioned
    *
    * @param {string} freetId - The id of the freet to be updated
    * @param {string} content - The new content of the freet
@@ -216,23 +387,82 @@ class FreetCollection {
    */
   static async updateOne(freetId: Types.ObjectId | string, content: string): Promise<HydratedDocument<Freet>> {
     const freet = await FreetModel.findOne({_id: freetId});
+    await RevisionCollection.addOne({freetId: freet._id, content: freet.content, dateWritten: freet.dateModified});
     freet.content = content;
+    freet.mentions = await MentionCollection.parse(content);
+    freet.tags = findTags(content);
     freet.dateModified = new Date();
+    freet.editCount += 1;
     await freet.save();
-    return freet.populate('authorId');
+    await NotificationCollection.notifyMentions({actorId: freet.authorId, mentions: freet.mentions, freetId: freet._id, anonymous: freet.anonymous});
+    return freet.populate(POPULATED_PATHS);
   }
 
   /**
-   * Delete a freet with given freetId.
+   * Update a scheduled freet that is not yet published. It isn't public yet,
+   * so no revision is kept.
+   *
+   * @param {string} freetId - The id of the scheduled freet
+   * @param {string} content - The new content of the freet
+   * @param {Date} publishAt - When to publish the freet instead, if it changes
+   * @return {Promise<HydratedDocument<Freet>>} - The updated freet
+   */
+  static async updateScheduled(freetId: Types.ObjectId | string, content: string, publishAt?: Date): Promise<HydratedDocument<Freet>> {
+    const freet = await FreetModel.findOne({_id: freetId});
+    freet.content = content;
+    if (publishAt) {
+      freet.publishAt = publishAt;
+      freet.dateCreated = publishAt;
+      freet.dateModified = publishAt;
+    }
+
+    await freet.save();
+    return freet.populate(POPULATED_PATHS);
+  }
+
+  /**
+   * Delete a freet with given freetId, along with its revisions.
    *
    * @param {string} freetId - The freetId of freet to delete
    * @return {Promise<Boolean>} - true if the freet has been deleted, false otherwise
    */
   static async deleteOne(freetId: Types.ObjectId | string): Promise<boolean> {
     const freet = await FreetModel.deleteOne({_id: freetId});
+    await RevisionCollection.deleteManyByFreets([freetId]);
     return freet !== null;
   }
 
+  /**
+   * Take back every upvote a user gave, keeping each freet's count in line
+   * with its remaining upvoters
+   *
+   * @param {string} voterId - The id of the voter
+   */
+  static async removeVotesBy(voterId: Types.ObjectId | string): Promise<void> {
+    await FreetModel.updateMany({upvoters: voterId}, {$pull: {upvoters: voterId}, $inc: {upvotes: -1}});
+  }
+
+  /**
+   * Get every published freet, including hidden ones, most recent first, for moderators to review
+   *
+   * @return {Promise<HydratedDocument<Freet>[]>} - An array of all of the freets
+   */
+  static async findAllForModeration(): Promise<Array<HydratedDocument<Freet>>> {
+    await this.publishDue();
+    return FreetModel.find({publishAt: null}).sort({dateCreated: -1}).populate(POPULATED_PATHS);
+  }
+
+  /**
+   * Hide a freet from everyone, or show it again
+   *
+   * @param {string} freetId - The id of the freet
+   * @param {boolean} hidden - Whether to hide the freet
+   * @return {Promise<HydratedDocument<Freet>>} - The updated freet
+   */
+  static async setHidden(freetId: Types.ObjectId | string, hidden: boolean): Promise<HydratedDocument<Freet>> {
+    return FreetModel.findOneAndUpdate({_id: freetId}, {$set: {hidden}}, {new: true}).populate(POPULATED_PATHS);
+  }
+
   /**
    * Delete all the freets by the given author
    *
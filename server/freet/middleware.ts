@@ -1,6 +1,7 @@
 import type {Request, Response, NextFunction} from 'express';
 import {Types} from 'mongoose';
 import FreetCollection from '../freet/collection';
+import FollowCollection from '../follow/collection';
 
 /**
  * Checks if a freet with freetId is req.params exists
@@ -20,6 +21,46 @@ const isFreetExists = async (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+/**
+ * Checks if a scheduled freet with freetId in req.params exists and is not yet published.
+ * Scheduled freets are private to their author, so other users' don't exist either.
+ */
+const isScheduledFreetExists = async (req: Request, res: Response, next: NextFunction) => {
+  const validFormat = Types.ObjectId.isValid(req.params.freetId);
+  const freet = validFormat ? await FreetCollection.findOneScheduled(req.params.freetId) : null;
+  if (!freet || freet.authorId._id.toString() !== req.session.userId) {
+    res.status(404).json({
+      error: {
+        freetNotFound: `Scheduled freet with freet ID ${req.params.freetId} does not exist.`
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the viewer may see the freet with freetId in req.params, i.e. it isn't
+ * hidden by a moderator or by a private account that hasn't approved the viewer,
+ * unless the viewer wrote it
+ */
+const isFreetViewable = async (req: Request, res: Response, next: NextFunction) => {
+  const freet = await FreetCollection.findOne(req.params.freetId);
+  const isAuthor = freet.authorId._id.toString() === req.session.userId;
+  const privateIds = await FollowCollection.findInaccessibleUserIds(req.session.userId);
+  if (!isAuthor && (freet.hidden || privateIds.some(id => id.equals(freet.authorId._id)))) {
+    res.status(404).json({
+      error: {
+        freetNotFound: `Freet with freet ID ${req.params.freetId} does not exist.`
+      }
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Checks if the content of the freet in req.body is valid, i.e not a stream of empty
  * spaces and not more than 140 characters
@@ -43,6 +84,49 @@ const isValidFreetContent = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+/**
+ * Checks if the optional anonymous flag in req.body is a boolean
+ */
+const isValidAnonymousFlag = (req: Request, res: Response, next: NextFunction) => {
+  const {anonymous} = req.body as {anonymous?: unknown};
+  if (anonymous !== undefined && typeof anonymous !== 'boolean') {
+    res.status(400).json({
+      error: 'The anonymous flag must be true or false.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the optional publishAt in req.body is a date and time in the future
+ */
+const isValidPublishAt = (req: Request, res: Response, next: NextFunction) => {
+  const {publishAt} = req.body as {publishAt?: unknown};
+  if (publishAt === undefined) {
+    next();
+    return;
+  }
+
+  const date = typeof publishAt === 'string' ? new Date(publishAt) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    res.status(400).json({
+      error: 'The publish time must be a date and time.'
+    });
+    return;
+  }
+
+  if (date.getTime() <= Date.now()) {
+    res.status(400).json({
+      error: 'The publish time must be in the future.'
+    });
+    return;
+  }
+
+  next();
+};
+
 /**
  * Checks if the current user is the author of the freet whose freetId is in req.params
  */
@@ -62,5 +146,9 @@ const isValidFreetModifier = async (req: Request, res: Response, next: NextFunct
 export {
   isValidFreetContent,
   isFreetExists,
-  isValidFreetModifier
+  isFreetViewable,
+  isScheduledFreetExists,
+  isValidFreetModifier,
+  isValidAnonymousFlag,
+  isValidPublishAt
 };
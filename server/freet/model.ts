@@ -1,6 +1,8 @@
 import type {Types, PopulatedDoc, Document} from 'mongoose';
 import {Schema, model} from 'mongoose';
 import type {User} from '../user/model';
+import type {Mention, PopulatedMention} from '../mention/model';
+import {MentionSchema} from '../mention/model';
 
 /**
  * This file defines the properties stored in a Freet
@@ -13,10 +15,15 @@ export type Freet = {
   authorId: Types.ObjectId;
   dateCreated: Date;
   content: string;
+  mentions: Mention[];
+  tags: string[];
   dateModified: Date;
+  editCount: number; // Earlier versions are kept as revisions
+  publishAt?: Date; // When a scheduled freet goes live; unset once it has
   anonymous: boolean;
+  hidden: boolean; // Hidden by a moderator
   comments: Array<any>;
-  upvoters: Array<any>;
+  upvoters: Types.ObjectId[];
   upvotes: number;
 };
 
@@ -25,10 +32,15 @@ export type PopulatedFreet = {
   authorId: User;
   dateCreated: Date;
   content: string;
+  mentions: PopulatedMention[];
+  tags: string[];
   dateModified: Date;
+  editCount: number; // Earlier versions are kept as revisions
+  publishAt?: Date; // When a scheduled freet goes live; unset once it has
   anonymous: boolean;
-  comments: [];
-  upvoters: Array<any>; // change Any to the proper type later
+  hidden: boolean; // Hidden by a moderator
+  comments: Array<Record<string, unknown>>;
+  upvoters: Types.ObjectId[];
   upvotes: number;
 };
 
@@ -53,21 +65,47 @@ const FreetSchema = new Schema<Freet>({
     type: String,
     required: true
   },
+  // The users mentioned in the content, found when it was written
+  mentions: {
+    type: [MentionSchema],
+    default: []
+  },
+  // The #tags in the content, lowercased and without the #
+  tags: {
+    type: [String],
+    default: []
+  },
   // The date the freet was modified
   dateModified: {
     type: Date,
     required: true
   },
+  // How many times the freet was edited
+  editCount: {
+    type: Number,
+    default: 0
+  },
+  // When a scheduled freet goes live, unset once it has
+  publishAt: {
+    type: Date,
+    required: false
+  },
   anonymous: {
     type: Boolean,
     required: true
   },
+  // Whether a moderator hid the freet from everyone
+  hidden: {
+    type: Boolean,
+    default: false
+  },
   comments: {
     type: [],
     required: true
   },
+  // The users who upvoted the freet
   upvoters: {
-    type: [],
+    type: [{type: Schema.Types.ObjectId, ref: 'User'}],
     required: true
   },
   upvotes: {
@@ -76,5 +114,15 @@ const FreetSchema = new Schema<Freet>({
   },
 });
 
+// Feeds are read most recent first, a page at a time (see feed/util)
+FreetSchema.index({dateModified: -1, _id: -1});
+FreetSchema.index({authorId: 1, dateModified: -1, _id: -1});
+FreetSchema.index({'mentions.userId': 1, dateModified: -1, _id: -1});
+FreetSchema.index({tags: 1, dateModified: -1, _id: -1});
+// Trending tags are counted by when freets were posted (see tag/collection)
+FreetSchema.index({tags: 1, dateCreated: -1});
+FreetSchema.index({content: 'text'});
+FreetSchema.index({publishAt: 1}, {sparse: true});
+
 const FreetModel = model<Freet>('Freet', FreetSchema);
 export default FreetModel;
@@ -3,31 +3,46 @@ import express from 'express';
 import FreetCollection from './collection';
 import * as userValidator from '../user/middleware';
 import * as freetValidator from '../freet/middleware';
+import * as feedValidator from '../feed/middleware';
+import * as tagValidator from '../tag/middleware';
 import * as util from './util';
+import * as feedUtil from '../feed/util';
 import UserCollection from '../user/collection';
+import RevisionCollection from '../revision/collection';
+import * as revisionUtil from '../revision/util';
 
 const router = express.Router();
 
 /**
- * Get all the freets
+ * Get a page of all the freets, leaving out those by users the signed in user
+ * blocked or muted. Every feed below is paged the same way: pass the next
+ * cursor of a page as before to get older freets, or the previous cursor as
+ * after to get newer ones.
  *
- * @name GET /api/freets
+ * @name GET /api/freets?before=cursor&after=cursor&limit=number
  *
- * @return {FreetResponse[]} - A list of all the freets sorted in descending
- *                      order by date modified
+ * @return {{freets: FreetResponse[], next?: string, previous?: string}} - The freets sorted in
+ *                      descending order by date modified, the cursor of the next page if
+ *                      there are older freets, and the cursor to check for newer freets
+ * @throws {400} - If both before and after are given, either is not a cursor,
+ *                 or limit is not from 1 to 50
  */
 /**
- * Get freets by author.
+ * Get a page of freets by author.
  *
  * @name GET /api/freets?authorId=id
  *
- * @return {FreetResponse[]} - An array of freets created by user with id, authorId
+ * @return {{freets: FreetResponse[], next?: string, previous?: string}} - A page of freets
+ *                      created by user with id, authorId
  * @throws {400} - If authorId is not given
  * @throws {404} - If no user has given authorId
  *
  */
 router.get(
   '/',
+  [
+    feedValidator.isValidFeedPage
+  ],
   async (req: Request, res: Response, next: NextFunction) => {
     // Check if authorId query parameter was supplied
     if (req.query.author !== undefined) {
@@ -35,22 +50,24 @@ router.get(
       return;
     }
 
-    const allFreets = await FreetCollection.findAll();
-    const response = allFreets.map(util.constructFreetResponse);
-    res.status(200).json(response);
+    const page = feedUtil.getFeedPage(req.query);
+    const allFreets = await FreetCollection.findAll(page, req.session.userId);
+    res.status(200).json(util.constructFreetPageResponse(allFreets, page));
   },
   [
     userValidator.isAuthorExists
   ],
   async (req: Request, res: Response) => {
-    const authorFreets = await FreetCollection.findAllByUsername(req.query.author as string);
-    const response = authorFreets.map(util.constructFreetResponse);
-    res.status(200).json(response);
+    const page = feedUtil.getFeedPage(req.query);
+    const authorFreets = await FreetCollection.findAllByUsername(req.query.author as string, page, req.session.userId);
+    res.status(200).json(util.constructFreetPageResponse(authorFreets, page));
   }
 );
 
 /**
- * Get freets by author on today's date.
+ * Get freets by author on today's date in earlier years, leaving out their
+ * anonymous freets and, unless the signed in user was approved, those of a
+ * private account.
  *
  * @name GET /api/freets/date?authorId=id
  *
@@ -65,79 +82,130 @@ router.get(
     userValidator.isAuthorExists
   ],
   async (req: Request, res: Response) => {
-    const authorFreetsOnThisDay = await FreetCollection.findAllOnThisDate(req.query.author as string);
+    const authorFreetsOnThisDay = await FreetCollection.findAllOnThisDate(req.query.author as string, req.session.userId);
     const response = authorFreetsOnThisDay.map(util.constructFreetResponse);
     res.status(200).json(response);
   }
 );
 
 /**
- * Get important freets for a user.
- *
- * @name GET /api/freets/important?user=USERNAME
+ * Get a page of important freets for the signed in user, the ones that mention them.
  *
- * @return {FreetResponse[]} - An array of freets including the user's username
- * @throws {400} - If authorId is not given
- * @throws {404} - If no user has given authorId
+ * @name GET /api/freets/important
  *
+ * @return {{freets: FreetResponse[], next?: string, previous?: string}} - A page of freets
+ *                      including the user's username
+ * @throws {403} - If the user is not logged in
+ * @throws {400} - If the page is invalid
  */
- router.get(
+router.get(
   '/important',
   [
-    // userValidator.doesUserExist // uncomment once it's fixed
+    userValidator.isUserLoggedIn,
+    feedValidator.isValidFeedPage
   ],
   async (req: Request, res: Response) => {
-    const taggedFreets = await FreetCollection.findAllTag(req.query.user as string);
-    const response = taggedFreets.map(util.constructFreetResponse);
-    res.status(200).json(response);
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const page = feedUtil.getFeedPage(req.query);
+    const taggedFreets = await FreetCollection.findAllTag(userId, page);
+    res.status(200).json(util.constructFreetPageResponse(taggedFreets, page));
   }
 );
 
 /**
- * Get seen freets for a user.
+ * Get a page of the freets the signed in user has seen.
  *
- * @name GET /api/freets/seen?user=USERNAME
- *
- * @return {FreetResponse[]} - An array of freets that the user has seen
- * @throws {400} - If authorId is not given
- * @throws {404} - If no user has given authorId
+ * @name GET /api/freets/seen
  *
+ * @return {{freets: FreetResponse[], next?: string, previous?: string}} - A page of freets
+ *                      that the user has seen
+ * @throws {403} - If the user is not logged in
+ * @throws {400} - If the page is invalid
  */
- router.get(
+router.get(
   '/seen',
   [
-    // userValidator.doesUserExist // uncomment once it's fixed
+    userValidator.isUserLoggedIn,
+    feedValidator.isValidFeedPage
   ],
   async (req: Request, res: Response) => {
-    const seenFreets = await FreetCollection.getSeenFreets(req.query.user as string);
-    const response = seenFreets.map(util.constructFreetResponse);
-    res.status(200).json(response);
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const page = feedUtil.getFeedPage(req.query);
+    const seenFreets = await FreetCollection.getSeenFreets(userId, page);
+    res.status(200).json(util.constructFreetPageResponse(seenFreets, page));
   }
 );
 
 /**
- * Get a user's following feed.
- *
- * @name GET /api/freets/following?user=USERNAME
+ * Get a page of the signed in user's following feed.
  *
- * @return {FreetResponse[]} - An array of freets from other users that the user follows
- * @throws {400} - If authorId is not given
- * @throws {404} - If no user has given authorId
+ * @name GET /api/freets/following
  *
+ * @return {{freets: FreetResponse[], next?: string, previous?: string}} - A page of freets
+ *                      from other users that the user follows
+ * @throws {403} - If the user is not logged in
+ * @throws {400} - If the page is invalid
  */
- router.get(
+router.get(
   '/following',
   [
-    // userValidator.doesUserExist // uncomment once it's fixed
+    userValidator.isUserLoggedIn,
+    feedValidator.isValidFeedPage
   ],
   async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const page = feedUtil.getFeedPage(req.query);
+    const followingFreets = await FreetCollection.getFollowingFreets(userId, page);
+    res.status(200).json(util.constructFreetPageResponse(followingFreets, page));
+  }
+);
 
-    const followingFreets = await FreetCollection.getFollowingFreets(req.query.user as string);
-    const response = followingFreets.map(util.constructFreetResponse);
-    res.status(200).json(response);
+
+/**
+ * Get a page of the freets with a tag, leaving out those by users the signed
+ * in user blocked or muted.
+ *
+ * @name GET /api/freets/tags/:tag
+ *
+ * @return {{freets: FreetResponse[], next?: string, previous?: string}} - A page of freets
+ *                      with the tag, in any case
+ * @throws {400} - If the tag is not a tag, or the page is invalid
+ */
+router.get(
+  '/tags/:tag',
+  [
+    tagValidator.isValidTag,
+    feedValidator.isValidFeedPage
+  ],
+  async (req: Request, res: Response) => {
+    const page = feedUtil.getFeedPage(req.query);
+    const taggedFreets = await FreetCollection.findAllByTag(req.params.tag, page, req.session.userId);
+    res.status(200).json(util.constructFreetPageResponse(taggedFreets, page));
   }
 );
 
+/**
+ * Get every version of a freet, from the one first posted to the current one.
+ *
+ * @name GET /api/freets/:freetId/revisions
+ *
+ * @return {{revisions: RevisionResponse[]}} - The versions of the freet, oldest first
+ * @throws {404} - If the freetId is not valid, or the freet is hidden from the user
+ */
+router.get(
+  '/:freetId/revisions',
+  [
+    freetValidator.isFreetExists,
+    freetValidator.isFreetViewable
+  ],
+  async (req: Request, res: Response) => {
+    const freet = await FreetCollection.findOne(req.params.freetId);
+    const revisions = await RevisionCollection.findAllByFreetId(freet._id);
+    res.status(200).json({
+      revisions: revisionUtil.constructRevisionResponses(freet, revisions)
+    });
+  }
+);
 
 /**
  * Create a new freet.
@@ -145,28 +213,109 @@ router.get(
  * @name POST /api/freets
  *
  * @param {string} content - The content of the freet
+ * @param {boolean} [anonymous] - Whether to post under the user's pseudonym, defaults to their NighthawkMode
+ * @param {string} [publishAt] - When to publish the freet, if not now, as an ISO date
  * @return {FreetResponse} - The created freet
  * @throws {403} - If the user is not logged in
- * @throws {400} - If the freet content is empty or a stream of empty spaces
+ * @throws {400} - If the freet content is empty or a stream of empty spaces,
+ *                 the anonymous flag is not a boolean, or publishAt is not in the future
  * @throws {413} - If the freet content is more than 140 characters long
  */
 router.post(
   '/',
   [
     userValidator.isUserLoggedIn,
-    freetValidator.isValidFreetContent
+    freetValidator.isValidFreetContent,
+    freetValidator.isValidAnonymousFlag,
+    freetValidator.isValidPublishAt
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    const freet = await FreetCollection.addOne(userId, req.body.content);
+    const publishAt = req.body.publishAt ? new Date(req.body.publishAt as string) : undefined;
+    const freet = await FreetCollection.addOne(userId, req.body.content, req.body.anonymous, publishAt);
 
     res.status(201).json({
-      message: 'Your freet was created successfully.',
+      message: publishAt ? 'Your freet was scheduled successfully.' : 'Your freet was created successfully.',
+      freet: util.constructFreetResponse(freet)
+    });
+  }
+);
+
+/**
+ * Get the signed in user's scheduled freets that are not yet published.
+ *
+ * @name GET /api/freets/scheduled
+ *
+ * @return {FreetResponse[]} - The scheduled freets, the soonest to go live first
+ * @throws {403} - If the user is not logged in
+ */
+router.get(
+  '/scheduled',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const freets = await FreetCollection.findAllScheduled(userId);
+    res.status(200).json(freets.map(util.constructFreetResponse));
+  }
+);
+
+/**
+ * Edit a scheduled freet before it is published.
+ *
+ * @name PUT /api/freets/scheduled/:id
+ *
+ * @param {string} content - The new content of the freet
+ * @param {string} [publishAt] - When to publish the freet instead, as an ISO date
+ * @return {FreetResponse} - The updated freet
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the freetId is not one of the user's scheduled freets
+ * @throws {400} - If the freet content is empty or a stream of empty spaces,
+ *                 or publishAt is not in the future
+ * @throws {413} - If the freet content is more than 140 characters long
+ */
+router.put(
+  '/scheduled/:freetId',
+  [
+    userValidator.isUserLoggedIn,
+    freetValidator.isScheduledFreetExists,
+    freetValidator.isValidFreetContent,
+    freetValidator.isValidPublishAt
+  ],
+  async (req: Request, res: Response) => {
+    const publishAt = req.body.publishAt ? new Date(req.body.publishAt as string) : undefined;
+    const freet = await FreetCollection.updateScheduled(req.params.freetId, req.body.content, publishAt);
+    res.status(200).json({
+      message: 'Your scheduled freet was updated successfully.',
       freet: util.constructFreetResponse(freet)
     });
   }
 );
 
+/**
+ * Cancel a scheduled freet before it is published.
+ *
+ * @name DELETE /api/freets/scheduled/:id
+ *
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the freetId is not one of the user's scheduled freets
+ */
+router.delete(
+  '/scheduled/:freetId',
+  [
+    userValidator.isUserLoggedIn,
+    freetValidator.isScheduledFreetExists
+  ],
+  async (req: Request, res: Response) => {
+    await FreetCollection.deleteOne(req.params.freetId);
+    res.status(200).json({
+      message: 'Your scheduled freet was cancelled successfully.'
+    });
+  }
+);
+
 /**
  * Delete a freet
  *
@@ -225,20 +374,20 @@ router.put(
 /**
  * Get a shortened freet.
  *
- * @name GET /api/freets/shortened?id=freetId
+ * @name GET /api/freets/shortened/:freetId?
  *
  * @return {string} - A string of the shortened freet.
- * @throws {400} - If freetId is not given
- * @throws {404} - If freetId is invalid
+ * @throws {404} - If freetId is invalid, or the signed in user can't see the freet
  *
  */
  router.get(
-  '/shortened',
+  '/shortened/:freetId?',
   [
-    // freetValidator.isFreetExists,
+    freetValidator.isFreetExists,
+    freetValidator.isFreetViewable
   ],
   async (req: Request, res: Response) => {
-    const response = await FreetCollection.shortenedFreet(req.query.id as string);
+    const response = await FreetCollection.shortenedFreet(req.params.freetId);
     res.status(200).json(response);
   }
 );
@@ -248,21 +397,26 @@ router.put(
  *
  * @name PUT /api/freets/react/:freetId?
  *
- * @return {string} - A success message.
- * @throws {400} - If freetId is not given
- * @throws {404} - If freetId is invalid
+ * @return {FreetResponse} - The upvoted freet
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If freetId is invalid, or the user can't see the freet
  *
  */
  router.put(
   '/react/:freetId?',
   [
-    freetValidator.isFreetExists, // need to uncomment this
+    userValidator.isUserLoggedIn,
+    freetValidator.isFreetExists,
+    freetValidator.isFreetViewable
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
     const user = await UserCollection.findOneByUserId(userId);
-    const response = await FreetCollection.upvotePost(user.username, req.params.freetId as string);
-    res.status(200).json(response);
+    const freet = await FreetCollection.upvotePost(user._id, req.params.freetId);
+    res.status(200).json({
+      message: 'Your vote was recorded successfully.',
+      freet: util.constructFreetResponse(freet)
+    });
   }
 );
 
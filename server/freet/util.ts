@@ -1,6 +1,10 @@
 import type {HydratedDocument} from 'mongoose';
 import moment from 'moment';
 import type {Freet, PopulatedFreet} from '../freet/model';
+import type {FeedPage} from '../feed/util';
+import type {MentionResponse} from '../mention/util';
+import {constructFeedPage} from '../feed/util';
+import {constructMentionResponses} from '../mention/util';
 
 // Update this if you add a property to the Freet type!
 type FreetResponse = {
@@ -8,7 +12,20 @@ type FreetResponse = {
   author: string;
   dateCreated: string;
   content: string;
+  mentions: MentionResponse[]; // Where users are mentioned in the content, to link to them
+  tags: string[];
   dateModified: string;
+  edited: boolean;
+  editCount: number; // How many times the freet was edited, each kept as a revision
+  publishAt?: string; // When a scheduled freet goes live, as an ISO date
+  anonymous: boolean;
+  comments: Array<Record<string, unknown>>;
+};
+
+type FreetPageResponse = {
+  freets: FreetResponse[];
+  next?: string; // Cursor to pass as before to get older freets, if there are any
+  previous?: string; // Cursor to pass as after to get newer freets
 };
 
 /**
@@ -32,17 +49,47 @@ const constructFreetResponse = (freet: HydratedDocument<Freet>): FreetResponse =
       versionKey: false // Cosmetics; prevents returning of __v property
     })
   };
-  const {username} = freetCopy.authorId;
+  const {username, anonName} = freetCopy.authorId;
   delete freetCopy.authorId;
   return {
     ...freetCopy,
     _id: freetCopy._id.toString(),
-    author: username,
+    author: freetCopy.anonymous ? anonName : username,
+    mentions: constructMentionResponses(freetCopy.mentions),
+    // Embedded comment copies carry their author's id, which would unmask anonymous comments
+    comments: freetCopy.comments.filter(comment => !comment.hidden).map(comment => ({
+      _id: comment._id,
+      author: comment.author,
+      content: comment.content,
+      anonymous: comment.anonymous,
+      upvotes: comment.upvotes
+    })),
     dateCreated: formatDate(freet.dateCreated),
-    dateModified: formatDate(freet.dateModified)
+    dateModified: formatDate(freet.dateModified),
+    edited: freetCopy.editCount > 0,
+    publishAt: freet.publishAt?.toISOString()
+  };
+};
+
+/**
+ * Transform the freets read for a page of a feed into the page
+ *
+ * @param {HydratedDocument<Freet>[]} freets - The freets read for the page
+ * @param {FeedPage} page - The page that was read
+ * @returns {FreetPageResponse} - The page formatted for the frontend
+ */
+const constructFreetPageResponse = (freets: Array<HydratedDocument<Freet>>, page: FeedPage): FreetPageResponse => {
+  const {items, next, previous} = constructFeedPage(freets, page);
+  return {
+    freets: items.map(constructFreetResponse),
+    next,
+    previous
   };
 };
 
+export type {FreetResponse, FreetPageResponse};
+
 export {
-  constructFreetResponse
+  constructFreetResponse,
+  constructFreetPageResponse
 };
@@ -0,0 +1,26 @@
+import type {Mention} from './model';
+import UserCollection from '../user/collection';
+import {findMentionedUsernames, findMentions} from './util';
+
+/**
+ * This file contains a class that resolves the @usernames in freets and
+ * comments to users when they are written. The mentions are stored on the
+ * freet or comment itself.
+ */
+class MentionCollection {
+  /**
+   * Find every mention in a text, under the mentioned user's current or any
+   * old username. Usernames of deleted accounts or of nobody are left out.
+   *
+   * @param {string} content - The text of a freet or comment
+   * @return {Promise<Mention[]>} - The mentions, in the order they appear
+   */
+  static async parse(content: string): Promise<Mention[]> {
+    const usernames = findMentionedUsernames(content);
+    const users = await Promise.all(usernames.map(async username => UserCollection.findOneByUsernameOrAlias(username)));
+    const idsByUsername = new Map(usernames.map((username, i) => [username, users[i] && !users[i].dateDeleted ? users[i]._id : undefined]));
+    return findMentions(content, username => idsByUsername.get(username.toLowerCase()));
+  }
+}
+
+export default MentionCollection;
@@ -0,0 +1,44 @@
+import type {Types} from 'mongoose';
+import {Schema} from 'mongoose';
+import type {User} from '../user/model';
+
+/**
+ * This file defines the properties stored in a Mention, an @username in a
+ * freet or comment that was resolved to a user when the text was written.
+ * Mentions are stored inside freets and comments, so there is no model.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Mention on the backend
+export type Mention = {
+  userId: Types.ObjectId;
+  start: number; // Index of the @ in the text
+  end: number; // Index right after the username in the text
+};
+
+export type PopulatedMention = {
+  userId: User;
+  start: number;
+  end: number;
+};
+
+// Mongoose schema definition for mentions stored in freets and comments
+export const MentionSchema = new Schema<Mention>({
+  // The mentioned user
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // Where the @ is in the text
+  start: {
+    type: Number,
+    required: true
+  },
+  // Where the username ends in the text
+  end: {
+    type: Number,
+    required: true
+  }
+}, {_id: false});
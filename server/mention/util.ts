@@ -0,0 +1,76 @@
+import type {Types} from 'mongoose';
+import type {Mention, PopulatedMention} from './model';
+
+// Update this if you add a property to the Mention type!
+type MentionResponse = {
+  username: string; // The mentioned user's current username
+  start: number;
+  end: number;
+};
+
+// Matches an @ followed by a username, unless the @ is part of a word like an email address
+const MENTION_REGEX = /(^|[^\w@])@(\w+)/g;
+
+/**
+ * Find every @username in a text and resolve it to a user. Usernames that
+ * don't belong to anyone are left out.
+ *
+ * @param {string} content - The text of a freet or comment
+ * @param {(username: string) => Types.ObjectId | undefined} resolve - Finds the id of the user with a username
+ * @return {Mention[]} - The mentions, in the order they appear
+ */
+const findMentions = (content: string, resolve: (username: string) => Types.ObjectId | undefined): Mention[] => {
+  const mentions: Mention[] = [];
+  const regex = new RegExp(MENTION_REGEX.source, 'g');
+  let match = regex.exec(content);
+  while (match) {
+    const start = match.index + match[1].length;
+    const userId = resolve(match[2]);
+    if (userId) {
+      mentions.push({userId, start, end: start + match[2].length + 1});
+    }
+
+    match = regex.exec(content);
+  }
+
+  return mentions;
+};
+
+/**
+ * Get every distinct username written after an @ in a text
+ *
+ * @param {string} content - The text of a freet or comment
+ * @return {string[]} - The lowercased usernames
+ */
+const findMentionedUsernames = (content: string): string[] => {
+  const usernames: string[] = [];
+  findMentions(content, username => {
+    usernames.push(username.toLowerCase());
+    return undefined;
+  });
+  return [...new Set(usernames)];
+};
+
+/**
+ * Transform the mentions of a freet or comment, with their users populated,
+ * into objects with all the information needed by the frontend. Mentions of
+ * users who were since removed are left out.
+ *
+ * @param {PopulatedMention[]} mentions - The mentions
+ * @returns {MentionResponse[]} - The mentions formatted for the frontend
+ */
+const constructMentionResponses = (mentions: PopulatedMention[]): MentionResponse[] => (
+  (mentions ?? []).filter(mention => mention.userId).map(mention => ({
+    username: mention.userId.username,
+    start: mention.start,
+    end: mention.end
+  }))
+);
+
+export type {MentionResponse};
+
+export {
+  findMentions,
+  findMentionedUsernames,
+  constructMentionResponses
+};
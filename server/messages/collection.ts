@@ -0,0 +1,103 @@
+import type {HydratedDocument} from 'mongoose';
+import {Types} from 'mongoose';
+import type {Conversation, Message} from './model';
+import MessageModel from './model';
+import BlockCollection from '../block/collection';
+
+/**
+ * This file contains a class with functionality to interact with direct
+ * messages stored in MongoDB. Conversations with users someone blocked or
+ * muted are left out of their conversation list and unread count.
+ */
+class MessageCollection {
+  /**
+   * Send a message
+   *
+   * @param {string} senderId - The id of the sender
+   * @param {string} recipientId - The id of the recipient
+   * @param {string} content - The content of the message
+   * @return {Promise<HydratedDocument<Message>>} - The newly sent message
+   */
+  static async addOne(senderId: Types.ObjectId | string, recipientId: Types.ObjectId | string, content: string): Promise<HydratedDocument<Message>> {
+    const message = new MessageModel({senderId, recipientId, content, dateCreated: new Date()});
+    await message.save(); // Saves message to MongoDB
+    return message.populate(['senderId', 'recipientId']);
+  }
+
+  /**
+   * Get a user's conversations, the most recently active first
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<Conversation[]>} - The conversations, each with its last message and unread count
+   */
+  static async findConversations(userId: Types.ObjectId | string): Promise<Conversation[]> {
+    const me = new Types.ObjectId(userId.toString());
+    const hiddenIds = await BlockCollection.findHiddenUserIds(me);
+    const groups = await MessageModel.aggregate<{_id: Types.ObjectId; lastMessageId: Types.ObjectId; unread: number}>([
+      {$match: {$or: [{senderId: me}, {recipientId: me}]}},
+      {$sort: {_id: -1}},
+      {$group: {
+        _id: {$cond: [{$eq: ['$senderId', me]}, '$recipientId', '$senderId']},
+        lastMessageId: {$first: '$_id'},
+        unread: {$sum: {$cond: [{$and: [{$eq: ['$recipientId', me]}, {$eq: ['$read', false]}]}, 1, 0]}}
+      }},
+      {$match: {_id: {$nin: hiddenIds}}},
+      {$sort: {lastMessageId: -1}}
+    ]);
+    const lastMessages = await MessageModel.find({_id: {$in: groups.map(group => group.lastMessageId)}}).populate(['senderId', 'recipientId']);
+    return groups.map(group => ({
+      userId: group._id,
+      lastMessage: lastMessages.find(message => message._id.equals(group.lastMessageId)),
+      unread: group.unread
+    }));
+  }
+
+  /**
+   * Get a page of the messages between two users, most recent first
+   *
+   * @param {string} userId - The id of one user
+   * @param {string} otherId - The id of the other user
+   * @param {Object} page - Which page to get
+   * @param {string} page.before - Only get messages sent before the message with this id
+   * @param {number} page.limit - The most messages to get
+   * @return {Promise<HydratedDocument<Message>[]>} - The messages
+   */
+  static async findHistory(userId: Types.ObjectId | string, otherId: Types.ObjectId | string, page: {before?: string; limit: number}): Promise<Array<HydratedDocument<Message>>> {
+    return MessageModel.find({
+      $or: [{senderId: userId, recipientId: otherId}, {senderId: otherId, recipientId: userId}],
+      ...(page.before ? {_id: {$lt: page.before}} : {})
+    }).sort({_id: -1}).limit(page.limit).populate(['senderId', 'recipientId']);
+  }
+
+  /**
+   * Count a user's unread messages, leaving out those from users they blocked or muted
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<number>} - The number of unread messages
+   */
+  static async countUnread(userId: Types.ObjectId | string): Promise<number> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(userId);
+    return MessageModel.countDocuments({recipientId: userId, read: false, senderId: {$nin: hiddenIds}});
+  }
+
+  /**
+   * Mark every message a user got from another user as read
+   *
+   * @param {string} recipientId - The id of the user who read the messages
+   * @param {string} senderId - The id of the user who sent them
+   */
+  static async markRead(recipientId: Types.ObjectId | string, senderId: Types.ObjectId | string): Promise<void> {
+    await MessageModel.updateMany({recipientId, senderId, read: false}, {$set: {read: true}});
+  }
+
+  /**
+   * Delete every message sent by or to a user
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await MessageModel.deleteMany({$or: [{senderId: userId}, {recipientId: userId}]});
+  }
+}
+
+export default MessageCollection;
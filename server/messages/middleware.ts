@@ -0,0 +1,96 @@
+import type {Request, Response, NextFunction} from 'express';
+import {Types} from 'mongoose';
+import UserCollection from '../user/collection';
+import BlockCollection from '../block/collection';
+
+// The most messages returned in one page of a conversation
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Checks if the user named by username in req.params is not the current user
+ */
+const isNotSelf = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+  if (user._id.toString() === req.session.userId) {
+    res.status(400).json({
+      error: 'You cannot message yourself.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if neither the current user nor the user named by username in
+ * req.params has blocked the other
+ */
+const isNotBlockedEitherWay = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+  const [blocking, blockedBy] = await Promise.all([
+    BlockCollection.isBlocked(req.session.userId, user._id),
+    BlockCollection.isBlocked(user._id, req.session.userId)
+  ]);
+  if (blocking || blockedBy) {
+    res.status(403).json({
+      error: blocking ? `You have blocked ${user.username}.` : `${user.username} has blocked you.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the content of the message in req.body is valid, i.e not a stream of empty
+ * spaces and not more than 1000 characters
+ */
+const isValidMessageContent = (req: Request, res: Response, next: NextFunction) => {
+  const {content} = req.body as {content: string};
+  if (typeof content !== 'string' || !content.trim()) {
+    res.status(400).json({
+      error: 'Message content must be at least one character long.'
+    });
+    return;
+  }
+
+  if (content.length > 1000) {
+    res.status(413).json({
+      error: 'Message content must be no more than 1000 characters.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the before and limit in req.query are valid, i.e before is a
+ * message id and limit is a whole number from 1 to 50
+ */
+const isValidPage = (req: Request, res: Response, next: NextFunction) => {
+  const {before, limit} = req.query;
+  if (before !== undefined && !Types.ObjectId.isValid(before as string)) {
+    res.status(400).json({
+      error: 'before must be the id of a message.'
+    });
+    return;
+  }
+
+  const pageSize = Number(limit);
+  if (limit !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE)) {
+    res.status(400).json({
+      error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isNotSelf,
+  isNotBlockedEitherWay,
+  isValidMessageContent,
+  isValidPage
+};
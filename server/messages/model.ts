@@ -0,0 +1,76 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+import type {User} from '../user/model';
+
+/**
+ * This file defines the properties stored in a Message, sent privately from
+ * one user to another
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Message on the backend
+export type Message = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  senderId: Types.ObjectId;
+  recipientId: Types.ObjectId;
+  content: string;
+  read: boolean;
+  dateCreated: Date;
+};
+
+export type PopulatedMessage = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  senderId: User;
+  recipientId: User;
+  content: string;
+  read: boolean;
+  dateCreated: Date;
+};
+
+// A conversation is not stored; it is built from the messages between two users
+export type Conversation = {
+  userId: Types.ObjectId; // The other user in the conversation
+  lastMessage: HydratedDocument<Message>;
+  unread: number; // Messages from the other user that haven't been read
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Messages stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const MessageSchema = new Schema<Message>({
+  // The user who sent the message
+  senderId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The user the message was sent to
+  recipientId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The content of the message
+  content: {
+    type: String,
+    required: true
+  },
+  // Whether the recipient has read the message
+  read: {
+    type: Boolean,
+    default: false
+  },
+  // The date the message was sent
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+MessageSchema.index({senderId: 1, recipientId: 1, _id: -1});
+MessageSchema.index({recipientId: 1, read: 1});
+
+const MessageModel = model<Message>('Message', MessageSchema);
+export default MessageModel;
@@ -0,0 +1,145 @@
+import type {Request, Response} from 'express';
+import express from 'express';
+import MessageCollection from './collection';
+import UserCollection from '../user/collection';
+import * as userValidator from '../user/middleware';
+import * as messageValidator from './middleware';
+import * as util from './util';
+
+const router = express.Router();
+
+// How many messages a page of a conversation has unless the limit says otherwise
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Get the signed in user's conversations, leaving out those with users they
+ * blocked or muted.
+ *
+ * @name GET /api/messages
+ *
+ * @return {ConversationResponse[]} - The conversations, the most recently active first
+ * @throws {403} - If the user is not logged in
+ */
+router.get(
+  '/',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const conversations = await MessageCollection.findConversations(userId);
+    res.status(200).json(conversations.map(util.constructConversationResponse));
+  }
+);
+
+/**
+ * Count the signed in user's unread messages.
+ *
+ * @name GET /api/messages/unread
+ *
+ * @return {{unread: number}} - The number of unread messages
+ * @throws {403} - If the user is not logged in
+ */
+router.get(
+  '/unread',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const unread = await MessageCollection.countUnread(userId);
+    res.status(200).json({unread});
+  }
+);
+
+/**
+ * Get a page of the conversation with a user. Pass the next cursor of a page
+ * as before to get the page of older messages.
+ *
+ * @name GET /api/messages/:username?before=id&limit=number
+ *
+ * @return {{messages: MessageResponse[], next?: string}} - The messages, oldest first,
+ *                      and the cursor of the next page if there are older messages
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the user does not exist
+ * @throws {400} - If before is not a message id or limit is not from 1 to 50
+ */
+router.get(
+  '/:username',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isUserExists,
+    messageValidator.isValidPage
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const other = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_PAGE_SIZE;
+    // Get one extra message to find out whether there is another page
+    const messages = await MessageCollection.findHistory(userId, other._id, {before: req.query.before as string, limit: limit + 1});
+    const page = messages.slice(0, limit);
+    res.status(200).json({
+      messages: page.reverse().map(util.constructMessageResponse),
+      next: messages.length > limit ? page[0]._id.toString() : undefined
+    });
+  }
+);
+
+/**
+ * Send a message to a user.
+ *
+ * @name POST /api/messages/:username
+ *
+ * @param {string} content - The content of the message
+ * @return {MessageResponse} - The sent message
+ * @throws {403} - If the user is not logged in, or either user blocked the other
+ * @throws {404} - If the user does not exist
+ * @throws {400} - If the user tries to message themselves, or the content is empty
+ * @throws {413} - If the content is more than 1000 characters long
+ */
+router.post(
+  '/:username',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isUserExists,
+    messageValidator.isNotSelf,
+    messageValidator.isNotBlockedEitherWay,
+    messageValidator.isValidMessageContent
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const recipient = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const message = await MessageCollection.addOne(userId, recipient._id, req.body.content);
+    res.status(201).json({
+      message: `Your message to ${recipient.username} was sent.`,
+      sent: util.constructMessageResponse(message)
+    });
+  }
+);
+
+/**
+ * Mark the conversation with a user as read.
+ *
+ * @name PUT /api/messages/:username/read
+ *
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the user does not exist
+ */
+router.put(
+  '/:username/read',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isUserExists
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const other = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    await MessageCollection.markRead(userId, other._id);
+    res.status(200).json({
+      message: `Your conversation with ${other.username} is marked as read.`
+    });
+  }
+);
+
+export {router as messageRouter};
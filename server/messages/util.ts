@@ -0,0 +1,72 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {Conversation, Message, PopulatedMessage} from '../messages/model';
+
+// Update this if you add a property to the Message type!
+type MessageResponse = {
+  _id: string;
+  sender: string;
+  recipient: string;
+  content: string;
+  read: boolean;
+  dateCreated: string;
+};
+
+type ConversationResponse = {
+  user: string; // The other user's username
+  lastMessage: MessageResponse;
+  unread: number;
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw Message object from the database into an object
+ * with all the information needed by the frontend
+ *
+ * @param {HydratedDocument<Message>} message - A message
+ * @returns {MessageResponse} - The message object formatted for the frontend
+ */
+const constructMessageResponse = (message: HydratedDocument<Message>): MessageResponse => {
+  const messageCopy: PopulatedMessage = {
+    ...message.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    _id: messageCopy._id.toString(),
+    sender: messageCopy.senderId.username,
+    recipient: messageCopy.recipientId.username,
+    content: messageCopy.content,
+    read: messageCopy.read,
+    dateCreated: formatDate(message.dateCreated)
+  };
+};
+
+/**
+ * Transform a conversation into an object with all the information needed
+ * by the frontend
+ *
+ * @param {Conversation} conversation - A conversation
+ * @returns {ConversationResponse} - The conversation formatted for the frontend
+ */
+const constructConversationResponse = (conversation: Conversation): ConversationResponse => {
+  const lastMessage = constructMessageResponse(conversation.lastMessage);
+  const sentByOther = conversation.lastMessage.senderId._id.equals(conversation.userId);
+  return {
+    user: sentByOther ? lastMessage.sender : lastMessage.recipient,
+    lastMessage,
+    unread: conversation.unread
+  };
+};
+
+export {
+  constructMessageResponse,
+  constructConversationResponse
+};
@@ -0,0 +1,192 @@
+import type {Collection, Types} from 'mongoose';
+import type {Document, Filter, UpdateFilter} from 'mongodb';
+import MigrationModel from './model';
+import UserModel from '../user/model';
+import FreetModel from '../freet/model';
+import CommentModel from '../comments/model';
+import FollowModel from '../follow/model';
+import AliasModel from '../alias/model';
+import {findMentions} from '../mention/util';
+import {findTags} from '../tag/util';
+
+type MigrationStep = {
+  name: string;
+  up: () => Promise<void>;
+};
+
+// How many documents a migration reads and writes at a time
+const BATCH_SIZE = 500;
+
+// The documents a batched migration goes through, and how each one changes
+type BatchedUpdate<DocumentModel> = {
+  collection: Collection;
+  filter: Filter<Document>;
+  projection: Document;
+  toUpdate: (document: DocumentModel) => UpdateFilter<Document>; // The update to apply to the document
+};
+
+/**
+ * Update the documents matching a filter a batch at a time, in order of id,
+ * so that a migration never holds a whole collection in memory
+ *
+ * @param {BatchedUpdate<DocumentModel>} update - The documents to go through and how to update each
+ * @param {Types.ObjectId} after - The id of the last document already updated, if any
+ */
+const updateInBatches = async <DocumentModel extends {_id: Types.ObjectId}>(update: BatchedUpdate<DocumentModel>, after?: Types.ObjectId): Promise<void> => {
+  const {collection, filter, projection, toUpdate} = update;
+  const documents = await collection
+    .find(after ? {$and: [filter, {_id: {$gt: after}}]} : filter, {projection})
+    .sort({_id: 1})
+    .limit(BATCH_SIZE)
+    .toArray() as unknown as DocumentModel[];
+  if (!documents.length) {
+    return;
+  }
+
+  await collection.bulkWrite(documents.map(document => ({
+    updateOne: {filter: {_id: document._id}, update: toUpdate(document)}
+  })));
+  if (documents.length === BATCH_SIZE) {
+    await updateInBatches(update, documents[documents.length - 1]._id);
+  }
+};
+
+/**
+ * Turn a list of usernames and ids into a list of ids. Usernames that no
+ * longer belong to anyone are dropped.
+ *
+ * @param {unknown[]} references - Usernames, ids, or a mix of both
+ * @param {Map<string, Types.ObjectId>} idsByUsername - User ids by lowercased username
+ * @return {Types.ObjectId[]} - The ids, without duplicates
+ */
+const toUserIds = (references: unknown[], idsByUsername: Map<string, Types.ObjectId>): Types.ObjectId[] => {
+  const ids = references
+    .map(reference => typeof reference === 'string' ? idsByUsername.get(reference.toLowerCase()) : reference as Types.ObjectId)
+    .filter(Boolean);
+  return ids.filter((id, i) => ids.findIndex(other => other.equals(id)) === i);
+};
+
+/**
+ * Votes and follows used to store usernames, which broke whenever a user
+ * renamed themselves. This replaces the usernames in freet and comment votes
+ * with user ids, recounting the votes from what is left, and moves every
+ * legacy following list into follows. The raw collections are used because
+ * the models no longer accept usernames in these fields.
+ */
+const migrateUserReferencesToIds = async (): Promise<void> => {
+  const users = await UserModel.collection.find({}, {projection: {username: 1, following: 1}}).toArray() as unknown as Array<{_id: Types.ObjectId; username: string; following?: string[]}>;
+  const idsByUsername = new Map(users.map(user => [user.username.toLowerCase(), user._id]));
+  // Accounts left in the old NighthawkMode all share a username, so their votes can't be told apart
+  const usernames = users.map(user => user.username.toLowerCase());
+  for (const username of usernames.filter((username, i) => usernames.indexOf(username) !== i)) {
+    idsByUsername.delete(username);
+  }
+
+  await updateInBatches<{_id: Types.ObjectId; upvoters: unknown[]}>({
+    collection: FreetModel.collection,
+    filter: {upvoters: {$type: 'string'}},
+    projection: {upvoters: 1},
+    toUpdate(freet) {
+      const upvoters = toUserIds(freet.upvoters, idsByUsername);
+      return {$set: {upvoters, upvotes: upvoters.length}};
+    }
+  });
+
+  await updateInBatches<{_id: Types.ObjectId; upvoters: unknown[]; downvoters: unknown[]}>({
+    collection: CommentModel.collection,
+    filter: {$or: [{upvoters: {$type: 'string'}}, {downvoters: {$type: 'string'}}]},
+    projection: {upvoters: 1, downvoters: 1},
+    toUpdate(comment) {
+      const upvoters = toUserIds(comment.upvoters, idsByUsername);
+      const downvoters = toUserIds(comment.downvoters, idsByUsername);
+      return {$set: {upvoters, downvoters, upvotes: upvoters.length - downvoters.length}};
+    }
+  });
+
+  const follows = users.flatMap(user => toUserIds(user.following ?? [], idsByUsername)
+    .filter(followeeId => !followeeId.equals(user._id))
+    .map(followeeId => ({
+      updateOne: {
+        filter: {followerId: user._id, followeeId},
+        update: {$setOnInsert: {dateCreated: new Date()}},
+        upsert: true
+      }
+    })));
+  if (follows.length) {
+    await FollowModel.bulkWrite(follows);
+  }
+
+  await UserModel.collection.updateMany({following: {$exists: true}}, {$unset: {following: ''}});
+};
+
+/**
+ * Mentions used to be found by searching the text of every freet and comment
+ * whenever the Important feed was read. This finds the mentions in existing
+ * freets and comments and stores them, the way new ones are stored when they
+ * are written. Current usernames win over old ones, and newer old usernames
+ * over older ones, as in UserCollection.findOneByUsernameOrAlias.
+ */
+const storeMentions = async (): Promise<void> => {
+  const users = await UserModel.find({}, {username: 1, dateDeleted: 1});
+  const deletedIds = new Set(users.filter(user => user.dateDeleted).map(user => user._id.toString()));
+  const aliases = await AliasModel.find({}).sort({dateRetired: 1});
+  const idsByUsername = new Map([
+    ...aliases.map(alias => [alias.username.toLowerCase(), alias.userId] as const),
+    ...users.map(user => [user.username.toLowerCase(), user._id] as const)
+  ].filter(([, userId]) => !deletedIds.has(userId.toString())));
+  const resolve = (username: string) => idsByUsername.get(username.toLowerCase());
+
+  await Promise.all([FreetModel.collection, CommentModel.collection].map(async collection => updateInBatches<{_id: Types.ObjectId; content: string}>({
+    collection,
+    filter: {mentions: {$exists: false}},
+    projection: {content: 1},
+    toUpdate: post => ({$set: {mentions: findMentions(post.content, resolve)}})
+  })));
+};
+
+/**
+ * Find the #tags in existing freets and store them, the way new ones are
+ * stored when they are written
+ */
+const storeTags = async (): Promise<void> => {
+  await updateInBatches<{_id: Types.ObjectId; content: string}>({
+    collection: FreetModel.collection,
+    filter: {tags: {$exists: false}},
+    projection: {content: 1},
+    toUpdate: freet => ({$set: {tags: findTags(freet.content)}})
+  });
+};
+
+// Every migration, oldest first. Never rename or remove one that has shipped.
+const MIGRATIONS: MigrationStep[] = [
+  {name: 'user-references-by-id', up: migrateUserReferencesToIds},
+  {name: 'structured-mentions', up: storeMentions},
+  {name: 'freet-tags', up: storeTags}
+];
+
+/**
+ * This file contains a class that applies migrations to existing documents.
+ * Each migration is applied once and recorded, and is written so that running
+ * it twice at the same time from two instances does no harm.
+ */
+class MigrationCollection {
+  /**
+   * Apply every migration that hasn't been applied yet, in order
+   */
+  static async runPending(): Promise<void> {
+    const applied = new Set((await MigrationModel.find({})).map(migration => migration.name));
+    await MIGRATIONS
+      .filter(migration => !applied.has(migration.name))
+      .reduce(async (previous, migration) => {
+        await previous;
+        await migration.up();
+        await MigrationModel.updateOne(
+          {name: migration.name},
+          {$setOnInsert: {dateApplied: new Date()}},
+          {upsert: true}
+        );
+      }, Promise.resolve());
+  }
+}
+
+export default MigrationCollection;
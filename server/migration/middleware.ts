@@ -0,0 +1,27 @@
+import type {Request, Response, NextFunction} from 'express';
+import MigrationCollection from './collection';
+
+// Shared by every request this instance handles, so migrations run once per instance
+let pendingMigrations: Promise<void>;
+
+/**
+ * Makes sure pending migrations have been applied before handling the request.
+ * Deploys should run `npm run migrate` first, so this normally finds nothing
+ * to do. A failed run is passed on as an error and retried on the next request.
+ */
+const runPendingMigrations = async (req: Request, res: Response, next: NextFunction) => {
+  pendingMigrations = pendingMigrations ?? MigrationCollection.runPending();
+  try {
+    await pendingMigrations;
+  } catch (error: unknown) {
+    pendingMigrations = undefined;
+    next(error);
+    return;
+  }
+
+  next();
+};
+
+export {
+  runPendingMigrations
+};
@@ -0,0 +1,35 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a Migration, a record that a
+ * one-off change to existing documents has been applied
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Migration on the backend
+export type Migration = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  name: string;
+  dateApplied: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Migrations stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const MigrationSchema = new Schema<Migration>({
+  // The name of the migration
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The date the migration finished
+  dateApplied: {
+    type: Date,
+    required: true
+  }
+});
+
+const MigrationModel = model<Migration>('Migration', MigrationSchema);
+export default MigrationModel;
@@ -0,0 +1,27 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import MigrationCollection from './collection';
+
+/**
+ * Applies pending migrations and exits. Run it with `npm run migrate` before
+ * deploying, so that no request has to wait for a migration.
+ */
+dotenv.config({});
+
+const mongoConnectionUrl = process.env.MONGO_SRV;
+if (!mongoConnectionUrl) {
+  throw new Error('Please add the MongoDB connection SRV as \'MONGO_SRV\'');
+}
+
+mongoose
+  .connect(mongoConnectionUrl)
+  .then(async () => MigrationCollection.runPending())
+  .then(async () => {
+    console.log('Migrations are up to date');
+    await mongoose.disconnect();
+  })
+  .catch(async (error: Error) => {
+    console.error(`Migrations failed: ${error.message}`);
+    process.exitCode = 1;
+    await mongoose.disconnect();
+  });
@@ -0,0 +1,39 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {ModerationAction, ModerationActionKind} from './model';
+import ModerationActionModel from './model';
+
+/**
+ * This file contains a class with functionality to interact with the
+ * moderation log stored in MongoDB.
+ */
+class ModerationCollection {
+  /**
+   * Record a moderation action in the log
+   *
+   * @param {Object} actionDetails - The moderator, action, target, target user, reason and details of the action
+   * @return {Promise<HydratedDocument<ModerationAction>>} - The new log entry
+   */
+  static async addOne(actionDetails: {
+    moderatorId: Types.ObjectId | string;
+    action: ModerationActionKind;
+    targetId: Types.ObjectId | string;
+    targetUserId: Types.ObjectId | string;
+    reason?: string;
+    details?: string;
+  }): Promise<HydratedDocument<ModerationAction>> {
+    const action = new ModerationActionModel({...actionDetails, dateCreated: new Date()});
+    await action.save(); // Saves action to MongoDB
+    return action.populate(['moderatorId', 'targetUserId']);
+  }
+
+  /**
+   * Get the moderation log, most recent first
+   *
+   * @return {Promise<HydratedDocument<ModerationAction>[]>} - Every logged action
+   */
+  static async findAll(): Promise<Array<HydratedDocument<ModerationAction>>> {
+    return ModerationActionModel.find({}).sort({dateCreated: -1}).populate(['moderatorId', 'targetUserId']);
+  }
+}
+
+export default ModerationCollection;
@@ -0,0 +1,87 @@
+import type {Request, Response, NextFunction} from 'express';
+import UserCollection from '../user/collection';
+
+const MAX_REASON_LENGTH = 500;
+const MAX_SUSPENSION_DAYS = 3650;
+
+/**
+ * Checks if the reason in req.body, if given, is a string of at most 500 characters
+ */
+const isValidReason = (req: Request, res: Response, next: NextFunction) => {
+  const {reason} = req.body as {reason: unknown};
+  if (reason !== undefined && typeof reason !== 'string') {
+    res.status(400).json({
+      error: 'Reason must be a string.'
+    });
+    return;
+  }
+
+  if (typeof reason === 'string' && reason.length > MAX_REASON_LENGTH) {
+    res.status(413).json({
+      error: `Reason must be no more than ${MAX_REASON_LENGTH} characters.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if days in req.body is a whole number of days between 1 and 3650
+ */
+const isValidSuspensionLength = (req: Request, res: Response, next: NextFunction) => {
+  const {days} = req.body as {days: unknown};
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SUSPENSION_DAYS) {
+    res.status(400).json({
+      error: `Suspension length must be a whole number of days between 1 and ${MAX_SUSPENSION_DAYS}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if role in req.body is user, moderator or admin
+ */
+const isValidRole = (req: Request, res: Response, next: NextFunction) => {
+  if (!['user', 'moderator', 'admin'].includes(req.body.role)) {
+    res.status(400).json({
+      error: 'Role must be user, moderator or admin.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the current user may moderate the user named by req.params.username:
+ * nobody can moderate themselves, and moderators can only moderate regular users
+ */
+const isModeratableUser = async (req: Request, res: Response, next: NextFunction) => {
+  const target = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+  if (target._id.toString() === req.session.userId) {
+    res.status(400).json({
+      error: 'You cannot moderate yourself.'
+    });
+    return;
+  }
+
+  const moderator = await UserCollection.findOneByUserId(req.session.userId);
+  if (moderator.role !== 'admin' && target.role !== 'user') {
+    res.status(403).json({
+      error: 'Only admins can moderate other moderators and admins.'
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidReason,
+  isValidSuspensionLength,
+  isValidRole,
+  isModeratableUser
+};
@@ -0,0 +1,93 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+import type {User} from '../user/model';
+
+/**
+ * This file defines the properties stored in a ModerationAction, an entry in
+ * the log of everything moderators and admins have done
+ * DO NOT implement operations here ---> use collection file
+ */
+
+export type ModerationActionKind =
+  | 'hideFreet'
+  | 'unhideFreet'
+  | 'removeFreet'
+  | 'hideComment'
+  | 'unhideComment'
+  | 'removeComment'
+  | 'suspendUser'
+  | 'unsuspendUser'
+  | 'changeRole';
+
+// Type definition for ModerationAction on the backend
+export type ModerationAction = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  moderatorId: Types.ObjectId;
+  action: ModerationActionKind;
+  targetId: Types.ObjectId; // The freet, comment or user acted on
+  targetUserId: Types.ObjectId; // The user acted on, or the author of the freet or comment
+  reason: string;
+  details: string; // The new role or the end of the suspension, where relevant
+  dateCreated: Date;
+};
+
+export type PopulatedModerationAction = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  moderatorId: User;
+  action: ModerationActionKind;
+  targetId: Types.ObjectId;
+  targetUserId: User;
+  reason: string;
+  details: string;
+  dateCreated: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// ModerationActions stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const ModerationActionSchema = new Schema<ModerationAction>({
+  // The moderator or admin who took the action
+  moderatorId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // What they did
+  action: {
+    type: String,
+    enum: ['hideFreet', 'unhideFreet', 'removeFreet', 'hideComment', 'unhideComment', 'removeComment', 'suspendUser', 'unsuspendUser', 'changeRole'],
+    required: true
+  },
+  // The freet, comment or user they did it to
+  targetId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  // The user affected by the action
+  targetUserId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // Why they did it
+  reason: {
+    type: String,
+    default: ''
+  },
+  // The new role or the end of the suspension, where relevant
+  details: {
+    type: String,
+    default: ''
+  },
+  // The date of the action
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+const ModerationActionModel = model<ModerationAction>('ModerationAction', ModerationActionSchema);
+export default ModerationActionModel;
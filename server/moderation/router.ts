@@ -0,0 +1,419 @@
+import type {Request, Response} from 'express';
+import express from 'express';
+import FreetCollection from '../freet/collection';
+import CommentCollection from '../comments/collection';
+import UserCollection from '../user/collection';
+import ModerationCollection from './collection';
+import * as userValidator from '../user/middleware';
+import * as freetValidator from '../freet/middleware';
+import * as commentValidator from '../comments/middleware';
+import * as moderationValidator from './middleware';
+import * as userUtil from '../user/util';
+import type {Role} from '../user/model';
+import * as util from './util';
+
+const router = express.Router();
+
+/**
+ * Get the moderation queue: every freet, including hidden ones, most recent first.
+ *
+ * @name GET /api/moderation/freets
+ *
+ * @return {ModeratedFreetResponse[]} - The freets, with whether they are hidden and their real author
+ * @throws {403} - If the user is not logged in or is not a moderator
+ */
+router.get(
+  '/freets',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator
+  ],
+  async (req: Request, res: Response) => {
+    const freets = await FreetCollection.findAllForModeration();
+    res.status(200).json(freets.map(util.constructModeratedFreetResponse));
+  }
+);
+
+/**
+ * Get every comment on a freet, including hidden ones.
+ *
+ * @name GET /api/moderation/comments?freet=id
+ *
+ * @return {ModeratedCommentResponse[]} - The comments, with whether they are hidden and their real author
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the freet does not exist
+ */
+router.get(
+  '/comments',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    commentValidator.isQueriedFreetExists
+  ],
+  async (req: Request, res: Response) => {
+    const comments = await CommentCollection.findAllByFreetForModeration(req.query.freet as string);
+    res.status(200).json(comments.map(util.constructModeratedCommentResponse));
+  }
+);
+
+/**
+ * Hide a freet from everyone.
+ *
+ * @name PUT /api/moderation/freets/:freetId/hidden
+ *
+ * @param {string} reason - Why the freet is hidden (optional)
+ * @return {ModeratedFreetResponse} - The hidden freet
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the freet does not exist
+ * @throws {400} - If the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.put(
+  '/freets/:freetId/hidden',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    freetValidator.isFreetExists,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const freet = await FreetCollection.setHidden(req.params.freetId, true);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'hideFreet',
+      targetId: freet._id,
+      targetUserId: freet.authorId._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: 'The freet is now hidden.',
+      freet: util.constructModeratedFreetResponse(freet)
+    });
+  }
+);
+
+/**
+ * Show a hidden freet again.
+ *
+ * @name DELETE /api/moderation/freets/:freetId/hidden
+ *
+ * @param {string} reason - Why the freet is shown again (optional)
+ * @return {ModeratedFreetResponse} - The freet
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the freet does not exist
+ * @throws {400} - If the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.delete(
+  '/freets/:freetId/hidden',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    freetValidator.isFreetExists,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const freet = await FreetCollection.setHidden(req.params.freetId, false);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'unhideFreet',
+      targetId: freet._id,
+      targetUserId: freet.authorId._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: 'The freet is visible again.',
+      freet: util.constructModeratedFreetResponse(freet)
+    });
+  }
+);
+
+/**
+ * Remove a freet and the comments on it.
+ *
+ * @name DELETE /api/moderation/freets/:freetId
+ *
+ * @param {string} reason - Why the freet is removed (optional)
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the freet does not exist
+ * @throws {400} - If the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.delete(
+  '/freets/:freetId',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    freetValidator.isFreetExists,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const freet = await FreetCollection.findOne(req.params.freetId);
+    await CommentCollection.deleteManyByFreets([freet._id]);
+    await FreetCollection.deleteOne(freet._id);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'removeFreet',
+      targetId: freet._id,
+      targetUserId: freet.authorId._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: 'The freet was removed.'
+    });
+  }
+);
+
+/**
+ * Hide a comment from everyone.
+ *
+ * @name PUT /api/moderation/comments/:commentId/hidden
+ *
+ * @param {string} reason - Why the comment is hidden (optional)
+ * @return {ModeratedCommentResponse} - The hidden comment
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the comment does not exist
+ * @throws {400} - If the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.put(
+  '/comments/:commentId/hidden',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    commentValidator.isCommentExists,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const comment = await CommentCollection.setHidden(req.params.commentId, true);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'hideComment',
+      targetId: comment._id,
+      targetUserId: comment.authorId._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: 'The comment is now hidden.',
+      comment: util.constructModeratedCommentResponse(comment)
+    });
+  }
+);
+
+/**
+ * Show a hidden comment again.
+ *
+ * @name DELETE /api/moderation/comments/:commentId/hidden
+ *
+ * @param {string} reason - Why the comment is shown again (optional)
+ * @return {ModeratedCommentResponse} - The comment
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the comment does not exist
+ * @throws {400} - If the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.delete(
+  '/comments/:commentId/hidden',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    commentValidator.isCommentExists,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const comment = await CommentCollection.setHidden(req.params.commentId, false);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'unhideComment',
+      targetId: comment._id,
+      targetUserId: comment.authorId._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: 'The comment is visible again.',
+      comment: util.constructModeratedCommentResponse(comment)
+    });
+  }
+);
+
+/**
+ * Remove a comment.
+ *
+ * @name DELETE /api/moderation/comments/:commentId
+ *
+ * @param {string} reason - Why the comment is removed (optional)
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in or is not a moderator
+ * @throws {404} - If the comment does not exist
+ * @throws {400} - If the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.delete(
+  '/comments/:commentId',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    commentValidator.isCommentExists,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const comment = await CommentCollection.findOne(req.params.commentId);
+    await CommentCollection.deleteOne(comment._id);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'removeComment',
+      targetId: comment._id,
+      targetUserId: comment.authorId._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: 'The comment was removed.'
+    });
+  }
+);
+
+/**
+ * Suspend a user. They are signed out everywhere and can't sign in until the
+ * suspension ends. Moderators can only suspend regular users.
+ *
+ * @name PUT /api/moderation/users/:username/suspension
+ *
+ * @param {number} days - How many days the suspension lasts
+ * @param {string} reason - Why the user is suspended (optional)
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in, is not a moderator, or may not moderate the user
+ * @throws {404} - If the user does not exist
+ * @throws {400} - If the user tries to suspend themselves, the length is not 1-3650 days
+ *                 or the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.put(
+  '/users/:username/suspension',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    userValidator.isUserExists,
+    moderationValidator.isModeratableUser,
+    moderationValidator.isValidSuspensionLength,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const suspendedUntil = new Date();
+    suspendedUntil.setDate(suspendedUntil.getDate() + (req.body.days as number));
+    const target = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const user = await UserCollection.updateSuspension(target._id, suspendedUntil);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'suspendUser',
+      targetId: user._id,
+      targetUserId: user._id,
+      reason: req.body.reason as string,
+      details: suspendedUntil.toISOString()
+    });
+    res.status(200).json({
+      message: `${user.username} is suspended until ${suspendedUntil.toDateString()}.`
+    });
+  }
+);
+
+/**
+ * Lift a user's suspension.
+ *
+ * @name DELETE /api/moderation/users/:username/suspension
+ *
+ * @param {string} reason - Why the suspension is lifted (optional)
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in, is not a moderator, or may not moderate the user
+ * @throws {404} - If the user does not exist
+ * @throws {400} - If the user tries to moderate themselves or the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.delete(
+  '/users/:username/suspension',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator,
+    userValidator.isUserExists,
+    moderationValidator.isModeratableUser,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const target = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const user = await UserCollection.updateSuspension(target._id, undefined);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'unsuspendUser',
+      targetId: user._id,
+      targetUserId: user._id,
+      reason: req.body.reason as string
+    });
+    res.status(200).json({
+      message: `${user.username} is no longer suspended.`
+    });
+  }
+);
+
+/**
+ * Change a user's role.
+ *
+ * @name PUT /api/moderation/users/:username/role
+ *
+ * @param {string} role - The new role: user, moderator or admin
+ * @param {string} reason - Why the role changes (optional)
+ * @return {UserResponse} - The updated user
+ * @throws {403} - If the user is not logged in or is not an admin
+ * @throws {404} - If the user does not exist
+ * @throws {400} - If the user tries to change their own role, the role is invalid
+ *                 or the reason is not a string
+ * @throws {413} - If the reason is more than 500 characters long
+ */
+router.put(
+  '/users/:username/role',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isAdmin,
+    userValidator.isUserExists,
+    moderationValidator.isModeratableUser,
+    moderationValidator.isValidRole,
+    moderationValidator.isValidReason
+  ],
+  async (req: Request, res: Response) => {
+    const target = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const user = await UserCollection.updateRole(target._id, req.body.role as Role);
+    await ModerationCollection.addOne({
+      moderatorId: req.session.userId as string,
+      action: 'changeRole',
+      targetId: user._id,
+      targetUserId: user._id,
+      reason: req.body.reason as string,
+      details: user.role
+    });
+    res.status(200).json({
+      message: `${user.username} is now a ${user.role}.`,
+      user: userUtil.constructUserResponse(user)
+    });
+  }
+);
+
+/**
+ * Get the moderation log.
+ *
+ * @name GET /api/moderation/actions
+ *
+ * @return {ModerationActionResponse[]} - Every moderation action, most recent first
+ * @throws {403} - If the user is not logged in or is not a moderator
+ */
+router.get(
+  '/actions',
+  [
+    userValidator.isUserLoggedIn,
+    userValidator.isModerator
+  ],
+  async (req: Request, res: Response) => {
+    const actions = await ModerationCollection.findAll();
+    res.status(200).json(actions.map(util.constructModerationActionResponse));
+  }
+);
+
+export {router as moderationRouter};
@@ -0,0 +1,107 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {ModerationAction, ModerationActionKind, PopulatedModerationAction} from '../moderation/model';
+import type {Freet, PopulatedFreet} from '../freet/model';
+import type {Comment, PopulatedComment} from '../comments/model';
+import type {FreetResponse} from '../freet/util';
+import {constructFreetResponse} from '../freet/util';
+import type {CommentResponse} from '../comments/util';
+import {constructCommentResponse} from '../comments/util';
+
+// Update this if you add a property to the ModerationAction type!
+type ModerationActionResponse = {
+  _id: string;
+  moderator: string;
+  action: ModerationActionKind;
+  targetId: string;
+  targetUser: string;
+  reason: string;
+  details: string;
+  dateCreated: string;
+};
+
+// Freets and comments as moderators see them, hidden or not and with their real author
+type ModeratedFreetResponse = FreetResponse & {hidden: boolean; username: string};
+type ModeratedCommentResponse = CommentResponse & {hidden: boolean; username: string};
+
+// Shown in place of users whose accounts have been purged
+const DELETED_USERNAME = '[deleted]';
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw ModerationAction object from the database into an object
+ * with all the information needed by the frontend
+ *
+ * @param {HydratedDocument<ModerationAction>} action - A moderation log entry
+ * @returns {ModerationActionResponse} - The log entry formatted for the frontend
+ */
+const constructModerationActionResponse = (action: HydratedDocument<ModerationAction>): ModerationActionResponse => {
+  const actionCopy: PopulatedModerationAction = {
+    ...action.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    _id: actionCopy._id.toString(),
+    moderator: actionCopy.moderatorId?.username ?? DELETED_USERNAME,
+    action: actionCopy.action,
+    targetId: actionCopy.targetId.toString(),
+    targetUser: actionCopy.targetUserId?.username ?? DELETED_USERNAME,
+    reason: actionCopy.reason,
+    details: actionCopy.details,
+    dateCreated: formatDate(action.dateCreated)
+  };
+};
+
+/**
+ * Transform a freet into what moderators see, which includes whether it is
+ * hidden and who wrote it even if it was posted anonymously
+ *
+ * @param {HydratedDocument<Freet>} freet - A freet
+ * @returns {ModeratedFreetResponse} - The freet formatted for moderators
+ */
+const constructModeratedFreetResponse = (freet: HydratedDocument<Freet>): ModeratedFreetResponse => {
+  const freetCopy: PopulatedFreet = {
+    ...freet.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    ...constructFreetResponse(freet),
+    hidden: Boolean(freetCopy.hidden),
+    username: freetCopy.authorId.username
+  };
+};
+
+/**
+ * Transform a comment into what moderators see, which includes whether it is
+ * hidden and who wrote it even if it was posted anonymously
+ *
+ * @param {HydratedDocument<Comment>} comment - A comment
+ * @returns {ModeratedCommentResponse} - The comment formatted for moderators
+ */
+const constructModeratedCommentResponse = (comment: HydratedDocument<Comment>): ModeratedCommentResponse => {
+  const commentCopy: PopulatedComment = {
+    ...comment.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    ...constructCommentResponse(comment),
+    hidden: Boolean(commentCopy.hidden),
+    username: commentCopy.authorId.username
+  };
+};
+
+export {
+  constructModerationActionResponse,
+  constructModeratedFreetResponse,
+  constructModeratedCommentResponse
+};
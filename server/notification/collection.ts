@@ -0,0 +1,134 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Notification, NotificationKind} from './model';
+import NotificationModel from './model';
+import type {Mention} from '../mention/model';
+import BlockCollection from '../block/collection';
+
+// How many notifications a user gets back at once
+const NOTIFICATIONS_LIMIT = 50;
+
+/**
+ * This file contains a class with functionality to interact with notifications
+ * stored in MongoDB. The other collections call it whenever something happens
+ * that a user should hear about.
+ */
+class NotificationCollection {
+  /**
+   * Notify a user that something happened. Nothing is recorded if the user
+   * did it themselves, if the user blocked or muted whoever did it, or if
+   * they were already told about the same thing.
+   *
+   * @param {Object} eventDetails - Who to notify, who did what, and where
+   */
+  static async addOne(eventDetails: {
+    userId: Types.ObjectId | string;
+    actorId: Types.ObjectId | string;
+    kind: NotificationKind;
+    freetId?: Types.ObjectId | string;
+    commentId?: Types.ObjectId | string;
+    anonymous?: boolean;
+  }): Promise<void> {
+    const {userId, actorId, kind, freetId, commentId, anonymous} = eventDetails;
+    if (userId.toString() === actorId.toString()) {
+      return;
+    }
+
+    const hiddenIds = await BlockCollection.findHiddenUserIds(userId);
+    if (hiddenIds.some(id => id.equals(actorId))) {
+      return;
+    }
+
+    const duplicate = await NotificationModel.findOne({userId, actorId, kind, freetId, commentId});
+    if (duplicate) {
+      return;
+    }
+
+    const notification = new NotificationModel({userId, actorId, kind, freetId, commentId, anonymous, dateCreated: new Date()});
+    await notification.save(); // Saves notification to MongoDB
+  }
+
+  /**
+   * Notify everyone mentioned in a freet or comment. Users mentioned more
+   * than once are notified once.
+   *
+   * @param {Object} postDetails - Who wrote it, who it mentions, and where it is
+   */
+  static async notifyMentions(postDetails: {
+    actorId: Types.ObjectId | string;
+    mentions: Mention[];
+    freetId: Types.ObjectId | string;
+    commentId?: Types.ObjectId | string;
+    anonymous?: boolean;
+  }): Promise<void> {
+    const userIds = new Set(postDetails.mentions.map(mention => mention.userId.toString()));
+    await Promise.all([...userIds].map(async userId => this.addOne({
+      userId,
+      actorId: postDetails.actorId,
+      kind: 'mention',
+      freetId: postDetails.freetId,
+      commentId: postDetails.commentId,
+      anonymous: postDetails.anonymous
+    })));
+  }
+
+  /**
+   * Find a user's notification by id
+   *
+   * @param {string} userId - The id of the user the notification is for
+   * @param {string} notificationId - The id of the notification
+   * @return {Promise<HydratedDocument<Notification>> | Promise<null>} - The notification, if any
+   */
+  static async findOne(userId: Types.ObjectId | string, notificationId: Types.ObjectId | string): Promise<HydratedDocument<Notification>> {
+    return NotificationModel.findOne({_id: notificationId, userId});
+  }
+
+  /**
+   * Get a user's most recent notifications
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<HydratedDocument<Notification>[]>} - The notifications, most recent first
+   */
+  static async findAllByUserId(userId: Types.ObjectId | string): Promise<Array<HydratedDocument<Notification>>> {
+    return NotificationModel.find({userId}).sort({dateCreated: -1}).limit(NOTIFICATIONS_LIMIT).populate('actorId');
+  }
+
+  /**
+   * Count a user's unread notifications
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<number>} - The number of unread notifications
+   */
+  static async countUnread(userId: Types.ObjectId | string): Promise<number> {
+    return NotificationModel.countDocuments({userId, read: false});
+  }
+
+  /**
+   * Mark one of a user's notifications as read
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} notificationId - The id of the notification
+   */
+  static async markOneRead(userId: Types.ObjectId | string, notificationId: Types.ObjectId | string): Promise<void> {
+    await NotificationModel.updateOne({_id: notificationId, userId}, {$set: {read: true}});
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async markAllRead(userId: Types.ObjectId | string): Promise<void> {
+    await NotificationModel.updateMany({userId, read: false}, {$set: {read: true}});
+  }
+
+  /**
+   * Delete every notification for or caused by a user
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await NotificationModel.deleteMany({$or: [{userId}, {actorId: userId}]});
+  }
+}
+
+export default NotificationCollection;
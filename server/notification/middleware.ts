@@ -0,0 +1,22 @@
+import type {Request, Response, NextFunction} from 'express';
+import {Types} from 'mongoose';
+import NotificationCollection from './collection';
+
+/**
+ * Checks if the notification with notificationId in req.params exists and is for the current user
+ */
+const isNotificationExists = async (req: Request, res: Response, next: NextFunction) => {
+  const notification = Types.ObjectId.isValid(req.params.notificationId) ? await NotificationCollection.findOne(req.session.userId, req.params.notificationId) : null;
+  if (!notification) {
+    res.status(404).json({
+      error: `Notification with id ${req.params.notificationId} does not exist.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isNotificationExists
+};
@@ -0,0 +1,96 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+import type {User} from '../user/model';
+
+/**
+ * This file defines the properties stored in a Notification, a record that
+ * something happened to a user that they should hear about
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// What happened: someone mentioned the user, followed them or asked to,
+// upvoted their freet or commented on their freet
+export type NotificationKind = 'mention' | 'follow' | 'followRequest' | 'upvote' | 'comment';
+
+// Type definition for Notification on the backend
+export type Notification = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  userId: Types.ObjectId;
+  actorId: Types.ObjectId;
+  kind: NotificationKind;
+  freetId?: Types.ObjectId;
+  commentId?: Types.ObjectId;
+  anonymous: boolean;
+  read: boolean;
+  dateCreated: Date;
+};
+
+export type PopulatedNotification = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  userId: User;
+  actorId: User;
+  kind: NotificationKind;
+  freetId?: Types.ObjectId;
+  commentId?: Types.ObjectId;
+  anonymous: boolean;
+  read: boolean;
+  dateCreated: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Notifications stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const NotificationSchema = new Schema<Notification>({
+  // The user the notification is for
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The user who did something
+  actorId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // What happened
+  kind: {
+    type: String,
+    enum: ['mention', 'follow', 'followRequest', 'upvote', 'comment'],
+    required: true
+  },
+  // The freet it happened on, if any
+  freetId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    ref: 'Freet'
+  },
+  // The comment it happened in, if any
+  commentId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    ref: 'Comment'
+  },
+  // Whether the actor posted anonymously, so only their pseudonym is shown
+  anonymous: {
+    type: Boolean,
+    default: false
+  },
+  // Whether the user has read the notification
+  read: {
+    type: Boolean,
+    default: false
+  },
+  // The date it happened
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+NotificationSchema.index({userId: 1, dateCreated: -1});
+
+const NotificationModel = model<Notification>('Notification', NotificationSchema);
+export default NotificationModel;
@@ -0,0 +1,83 @@
+import type {Request, Response} from 'express';
+import express from 'express';
+import NotificationCollection from './collection';
+import * as userValidator from '../user/middleware';
+import * as notificationValidator from './middleware';
+import * as util from './util';
+
+const router = express.Router();
+
+/**
+ * Get the signed in user's most recent notifications.
+ *
+ * @name GET /api/notifications
+ *
+ * @return {{unread: number, notifications: NotificationResponse[]}} - The number of
+ *                      unread notifications, and the 50 most recent notifications
+ * @throws {403} - If the user is not logged in
+ */
+router.get(
+  '/',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const [unread, notifications] = await Promise.all([
+      NotificationCollection.countUnread(userId),
+      NotificationCollection.findAllByUserId(userId)
+    ]);
+    res.status(200).json({
+      unread,
+      notifications: notifications.map(util.constructNotificationResponse)
+    });
+  }
+);
+
+/**
+ * Mark all of the signed in user's notifications as read.
+ *
+ * @name PUT /api/notifications/read
+ *
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in
+ */
+router.put(
+  '/read',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    await NotificationCollection.markAllRead(userId);
+    res.status(200).json({
+      message: 'All notifications marked as read.'
+    });
+  }
+);
+
+/**
+ * Mark one of the signed in user's notifications as read.
+ *
+ * @name PUT /api/notifications/:notificationId/read
+ *
+ * @return {string} - A success message
+ * @throws {403} - If the user is not logged in
+ * @throws {404} - If the notification does not exist or is for someone else
+ */
+router.put(
+  '/:notificationId/read',
+  [
+    userValidator.isUserLoggedIn,
+    notificationValidator.isNotificationExists
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    await NotificationCollection.markOneRead(userId, req.params.notificationId);
+    res.status(200).json({
+      message: 'Notification marked as read.'
+    });
+  }
+);
+
+export {router as notificationRouter};
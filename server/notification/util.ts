@@ -0,0 +1,64 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {Notification, NotificationKind, PopulatedNotification} from '../notification/model';
+
+// Update this if you add a property to the Notification type!
+type NotificationResponse = {
+  _id: string;
+  kind: NotificationKind;
+  actor: string;
+  message: string;
+  freetId?: string;
+  commentId?: string;
+  read: boolean;
+  dateCreated: string;
+};
+
+// What each kind of notification says, after the actor's name
+const MESSAGES: Record<NotificationKind, string> = {
+  mention: 'mentioned you',
+  follow: 'started following you',
+  followRequest: 'asked to follow you',
+  upvote: 'upvoted your freet',
+  comment: 'commented on your freet'
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw Notification object from the database into an object
+ * with all the information needed by the frontend. Actors who posted
+ * anonymously are shown by their pseudonym.
+ *
+ * @param {HydratedDocument<Notification>} notification - A notification
+ * @returns {NotificationResponse} - The notification object formatted for the frontend
+ */
+const constructNotificationResponse = (notification: HydratedDocument<Notification>): NotificationResponse => {
+  const notificationCopy: PopulatedNotification = {
+    ...notification.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  const actor = notificationCopy.anonymous ? notificationCopy.actorId.anonName : notificationCopy.actorId.username;
+  const where = notificationCopy.kind === 'mention' ? (notificationCopy.commentId ? ' in a comment' : ' in a freet') : '';
+  return {
+    _id: notificationCopy._id.toString(),
+    kind: notificationCopy.kind,
+    actor,
+    message: `@${actor} ${MESSAGES[notificationCopy.kind]}${where}.`,
+    freetId: notificationCopy.freetId?.toString(),
+    commentId: notificationCopy.commentId?.toString(),
+    read: notificationCopy.read,
+    dateCreated: formatDate(notification.dateCreated)
+  };
+};
+
+export {
+  constructNotificationResponse
+};
@@ -0,0 +1,70 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {RecoveryCode} from './model';
+import RecoveryCodeModel from './model';
+import {generateRecoveryCodes, hashRecoveryCode} from './util';
+
+/**
+ * This file contains a class with functionality to interact with account
+ * recovery codes stored in MongoDB.
+ */
+class RecoveryCodeCollection {
+  /**
+   * Give a user a new set of recovery codes, replacing any they had. The codes
+   * themselves are only returned here; afterwards they can't be recovered
+   * from the database.
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<string[]>} - The new codes
+   */
+  static async replaceAll(userId: Types.ObjectId | string): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+    const dateCreated = new Date();
+    await RecoveryCodeModel.deleteMany({userId});
+    await RecoveryCodeModel.insertMany(codes.map(code => ({userId, codeHash: hashRecoveryCode(code), dateCreated})));
+    return codes;
+  }
+
+  /**
+   * Find one of a user's unused recovery codes
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} code - The code as the user typed it in
+   * @return {Promise<HydratedDocument<RecoveryCode>> | Promise<null>} - The code, if it is valid
+   */
+  static async findOne(userId: Types.ObjectId | string, code: string): Promise<HydratedDocument<RecoveryCode>> {
+    return RecoveryCodeModel.findOne({userId, codeHash: hashRecoveryCode(code)});
+  }
+
+  /**
+   * Use up one of a user's recovery codes
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} code - The code as the user typed it in
+   * @return {Promise<boolean>} - true if the code was valid and is now used up, false otherwise
+   */
+  static async useOne(userId: Types.ObjectId | string, code: string): Promise<boolean> {
+    const recoveryCode = await RecoveryCodeModel.findOneAndDelete({userId, codeHash: hashRecoveryCode(code)});
+    return recoveryCode !== null;
+  }
+
+  /**
+   * Count a user's unused recovery codes
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<number>} - The number of codes left
+   */
+  static async countRemaining(userId: Types.ObjectId | string): Promise<number> {
+    return RecoveryCodeModel.countDocuments({userId});
+  }
+
+  /**
+   * Delete all of a user's recovery codes
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await RecoveryCodeModel.deleteMany({userId});
+  }
+}
+
+export default RecoveryCodeCollection;
@@ -0,0 +1,32 @@
+import type {Request, Response, NextFunction} from 'express';
+import UserCollection from '../user/collection';
+import RecoveryCodeCollection from './collection';
+import ThrottleCollection from '../throttle/collection';
+
+/**
+ * Checks if the recovery code in req.body is one of the unused codes of the
+ * user named by username in req.body. Failed attempts count towards the
+ * recovery throttle.
+ */
+const isValidRecoveryCode = async (req: Request, res: Response, next: NextFunction) => {
+  const {username, code} = req.body as {username: string; code: string};
+  if (typeof username !== 'string' || typeof code !== 'string' || !username.trim() || !code.trim()) {
+    res.status(400).json({error: `Missing ${username ? 'recovery code' : 'username'} for account recovery.`});
+    return;
+  }
+
+  const usernameRegex = /^\w+$/i;
+  const user = usernameRegex.test(username.trim()) ? await UserCollection.findOneByUsername(username) : null;
+  const recoveryCode = user ? await RecoveryCodeCollection.findOne(user._id, code) : null;
+  if (!recoveryCode) {
+    await ThrottleCollection.recordAttempt('recover', {ip: req.ip, username: username.trim()});
+    res.status(401).json({error: 'Invalid username or recovery code.'});
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidRecoveryCode
+};
@@ -0,0 +1,46 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a RecoveryCode, a single-use code
+ * that lets a user who forgot their password set a new one. Only a hash of
+ * the code is stored, and the code is deleted once it is used.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for RecoveryCode on the backend
+export type RecoveryCode = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  userId: Types.ObjectId;
+  codeHash: string;
+  dateCreated: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Recovery codes stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const RecoveryCodeSchema = new Schema<RecoveryCode>({
+  // The user the code recovers
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The SHA-256 hash of the code
+  codeHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The date the code was generated
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+RecoveryCodeSchema.index({userId: 1});
+
+const RecoveryCodeModel = model<RecoveryCode>('RecoveryCode', RecoveryCodeSchema);
+export default RecoveryCodeModel;
@@ -0,0 +1,29 @@
+import {createHash} from 'crypto';
+import {customAlphabet} from 'nanoid';
+
+// How many codes a user gets at a time
+const RECOVERY_CODE_COUNT = 10;
+
+// Codes look like abcde-12345; the alphabet leaves out characters that are easy to mix up
+const generateHalf = customAlphabet('abcdefghjkmnpqrstuvwxyz23456789', 5);
+
+/**
+ * Generate a new set of recovery codes
+ *
+ * @returns {string[]} - The codes
+ */
+const generateRecoveryCodes = (): string[] => Array.from({length: RECOVERY_CODE_COUNT}, () => `${generateHalf()}-${generateHalf()}`);
+
+/**
+ * Hash a recovery code for storage. Case, spaces and dashes are ignored so
+ * that codes typed in by hand still match.
+ *
+ * @param {string} code - The code
+ * @returns {string} - The hex-encoded SHA-256 hash of the normalized code
+ */
+const hashRecoveryCode = (code: string): string => createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+
+export {
+  generateRecoveryCodes,
+  hashRecoveryCode
+};
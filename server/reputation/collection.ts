@@ -0,0 +1,76 @@
+import type {HydratedDocument} from 'mongoose';
+import {Types} from 'mongoose';
+import type {ReputationEvent, ReputationSource} from './model';
+import ReputationEventModel from './model';
+
+/**
+ * This file contains a class with functionality to interact with the
+ * reputation ledger stored in MongoDB. A user's reputation is the sum of
+ * the changes recorded for them, so entries are only ever added.
+ */
+class ReputationCollection {
+  /**
+   * Record a reputation change. Users can't change their own reputation,
+   * so votes on their own posts are not recorded.
+   *
+   * @param {Object} eventDetails - The change to record
+   * @param {string} eventDetails.userId - The id of the user whose reputation changes
+   * @param {string} eventDetails.actorId - The id of the user whose vote caused the change
+   * @param {ReputationSource} eventDetails.source - The kind of event that caused the change
+   * @param {string} eventDetails.sourceId - The id of the freet or comment voted on
+   * @param {number} eventDetails.change - The amount to change the reputation by
+   * @return {Promise<HydratedDocument<ReputationEvent>> | Promise<null>} - The new ledger entry, if any
+   */
+  static async addOne(eventDetails: {
+    userId: Types.ObjectId | string;
+    actorId: Types.ObjectId | string;
+    source: ReputationSource;
+    sourceId: Types.ObjectId | string;
+    change: number;
+  }): Promise<HydratedDocument<ReputationEvent>> {
+    const {userId, actorId, change} = eventDetails;
+    if (change === 0 || userId.toString() === actorId.toString()) {
+      return null;
+    }
+
+    const event = new ReputationEventModel({...eventDetails, dateCreated: new Date()});
+    await event.save(); // Saves event to MongoDB
+    return event;
+  }
+
+  /**
+   * Get a user's ledger entries, most recent first
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<HydratedDocument<ReputationEvent>[]>} - The user's reputation changes
+   */
+  static async findAllByUserId(userId: Types.ObjectId | string): Promise<Array<HydratedDocument<ReputationEvent>>> {
+    return ReputationEventModel.find({userId}).sort({dateCreated: -1});
+  }
+
+  /**
+   * Compute a user's reputation from their ledger
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<number>} - The sum of the user's reputation changes
+   */
+  static async getReputation(userId: Types.ObjectId | string): Promise<number> {
+    const [total] = await ReputationEventModel.aggregate<{reputation: number}>([
+      {$match: {userId: new Types.ObjectId(userId)}},
+      {$group: {_id: null, reputation: {$sum: '$change'}}}
+    ]);
+    return total?.reputation ?? 0;
+  }
+
+  /**
+   * Delete every ledger entry about a user, along with the votes they cast
+   * on other users' posts
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await ReputationEventModel.deleteMany({$or: [{userId}, {actorId: userId}]});
+  }
+}
+
+export default ReputationCollection;
@@ -0,0 +1,69 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a ReputationEvent, one entry in
+ * the ledger that a user's reputation is computed from
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// What caused a reputation change
+export type ReputationSource = 'freetUpvote' | 'commentUpvote' | 'commentDownvote';
+
+// Type definition for ReputationEvent on the backend
+export type ReputationEvent = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  userId: Types.ObjectId;
+  actorId: Types.ObjectId;
+  source: ReputationSource;
+  sourceId: Types.ObjectId;
+  change: number;
+  dateCreated: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Reputation events stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const ReputationEventSchema = new Schema<ReputationEvent>({
+  // The user whose reputation changed
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The user whose vote caused the change
+  actorId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User'
+  },
+  // The kind of event that caused the change
+  source: {
+    type: String,
+    enum: ['freetUpvote', 'commentUpvote', 'commentDownvote'],
+    required: true
+  },
+  // The freet or comment that was voted on
+  sourceId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  // How much the reputation changed by; undoing a vote is recorded as its own entry
+  change: {
+    type: Number,
+    required: true
+  },
+  // The date the change happened
+  dateCreated: {
+    type: Date,
+    required: true
+  }
+});
+
+ReputationEventSchema.index({userId: 1, dateCreated: -1});
+
+const ReputationEventModel = model<ReputationEvent>('ReputationEvent', ReputationEventSchema);
+export default ReputationEventModel;
@@ -0,0 +1,42 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {ReputationEvent, ReputationSource} from '../reputation/model';
+
+// Update this if you add a property to the ReputationEvent type!
+type ReputationEventResponse = {
+  _id: string;
+  source: ReputationSource;
+  sourceId?: string; // Only shown to the user themself; it would tie them to their anonymous posts
+  change: number;
+  dateCreated: string;
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw ReputationEvent object from the database into an object
+ * with all the information needed by the frontend (leaving out who voted).
+ * The post that was voted on is only included for the user themself, since
+ * the post may be one they wrote anonymously.
+ *
+ * @param {HydratedDocument<ReputationEvent>} event - A ledger entry
+ * @param {boolean} isOwner - Whether the ledger is being viewed by the user it belongs to
+ * @returns {ReputationEventResponse} - The ledger entry formatted for the frontend
+ */
+const constructReputationEventResponse = (event: HydratedDocument<ReputationEvent>, isOwner: boolean): ReputationEventResponse => ({
+  _id: event._id.toString(),
+  source: event.source,
+  sourceId: isOwner ? event.sourceId.toString() : undefined,
+  change: event.change,
+  dateCreated: formatDate(event.dateCreated)
+});
+
+export {
+  constructReputationEventResponse
+};
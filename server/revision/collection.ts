@@ -0,0 +1,47 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Revision} from './model';
+import RevisionModel from './model';
+
+/**
+ * This file contains a class with functionality to interact with the earlier
+ * versions of freets stored in MongoDB. FreetCollection adds one whenever a
+ * freet is edited.
+ */
+class RevisionCollection {
+  /**
+   * Keep a version of a freet that is being replaced by an edit
+   *
+   * @param {Object} version - The freet, its content before the edit, and when that was written
+   * @return {Promise<HydratedDocument<Revision>>} - The new revision
+   */
+  static async addOne(version: {
+    freetId: Types.ObjectId | string;
+    content: string;
+    dateWritten: Date;
+  }): Promise<HydratedDocument<Revision>> {
+    const revision = new RevisionModel({...version, dateReplaced: new Date()});
+    await revision.save(); // Saves revision to MongoDB
+    return revision;
+  }
+
+  /**
+   * Get the earlier versions of a freet
+   *
+   * @param {string} freetId - The id of the freet
+   * @return {Promise<HydratedDocument<Revision>[]>} - The revisions, oldest first
+   */
+  static async findAllByFreetId(freetId: Types.ObjectId | string): Promise<Array<HydratedDocument<Revision>>> {
+    return RevisionModel.find({freetId}).sort({dateWritten: 1});
+  }
+
+  /**
+   * Delete the earlier versions of the given freets
+   *
+   * @param {Types.ObjectId[]} freetIds - The ids of the freets
+   */
+  static async deleteManyByFreets(freetIds: Array<Types.ObjectId | string>): Promise<void> {
+    await RevisionModel.deleteMany({freetId: {$in: freetIds}});
+  }
+}
+
+export default RevisionCollection;
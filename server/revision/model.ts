@@ -0,0 +1,50 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a Revision, an earlier version
+ * of a freet's content kept when the freet is edited
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Revision on the backend
+export type Revision = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  freetId: Types.ObjectId;
+  content: string;
+  dateWritten: Date;
+  dateReplaced: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Revisions stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const RevisionSchema = new Schema<Revision>({
+  // The edited freet
+  freetId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'Freet'
+  },
+  // The content of the freet before the edit
+  content: {
+    type: String,
+    required: true
+  },
+  // When this version of the freet was written
+  dateWritten: {
+    type: Date,
+    required: true
+  },
+  // When the edit replaced this version
+  dateReplaced: {
+    type: Date,
+    required: true
+  }
+});
+
+RevisionSchema.index({freetId: 1, dateWritten: 1});
+
+const RevisionModel = model<Revision>('Revision', RevisionSchema);
+export default RevisionModel;
@@ -0,0 +1,49 @@
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {Freet} from '../freet/model';
+import type {Revision} from './model';
+
+// Update this if you add a property to the Revision type!
+type RevisionResponse = {
+  version: number; // 1 for the freet as first posted, counting up with each edit
+  content: string;
+  dateWritten: string;
+  current: boolean; // Whether this is what the freet says now
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a freet's earlier versions and the freet itself into the list of
+ * every version of the freet, with all the information needed by the frontend
+ *
+ * @param {HydratedDocument<Freet>} freet - The freet
+ * @param {HydratedDocument<Revision>[]} revisions - The freet's revisions, oldest first
+ * @returns {RevisionResponse[]} - Every version of the freet, oldest first
+ */
+const constructRevisionResponses = (freet: HydratedDocument<Freet>, revisions: Array<HydratedDocument<Revision>>): RevisionResponse[] => [
+  ...revisions.map((revision, i) => ({
+    version: i + 1,
+    content: revision.content,
+    dateWritten: formatDate(revision.dateWritten),
+    current: false
+  })),
+  {
+    version: revisions.length + 1,
+    content: freet.content,
+    dateWritten: formatDate(freet.dateModified),
+    current: true
+  }
+];
+
+export type {RevisionResponse};
+
+export {
+  constructRevisionResponses
+};
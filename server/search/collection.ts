@@ -0,0 +1,185 @@
+import type {FilterQuery, HydratedDocument, Model} from 'mongoose';
+import {Types} from 'mongoose';
+import type {Freet} from '../freet/model';
+import type {Comment} from '../comments/model';
+import type {User} from '../user/model';
+import type {SearchPage, SearchQuery} from './util';
+import FreetModel from '../freet/model';
+import CommentModel from '../comments/model';
+import UserModel from '../user/model';
+import FreetCollection from '../freet/collection';
+import CommentCollection from '../comments/collection';
+import UserCollection from '../user/collection';
+import BlockCollection from '../block/collection';
+import FollowCollection from '../follow/collection';
+import {decodeScoreCursor, encodeScoreCursor} from './util';
+
+// A page of search results, best match first
+type SearchResults<ResultModel> = {
+  results: ResultModel[];
+  next?: string; // Cursor to pass as before to get the next page, if there is one
+};
+
+// A freet or comment, as far as searching goes
+type Post = Freet | Comment;
+
+/**
+ * This file contains a class that searches freets, comments and users.
+ * Freets and comments are matched with the text indexes on their content,
+ * and users by the start of their username.
+ */
+class SearchCollection {
+  /**
+   * Search freets, best match first
+   *
+   * @param {SearchQuery} query - What to look for
+   * @param {SearchPage} page - The page to get
+   * @param {string} viewerId - The id of the user searching, if they are signed in
+   * @return {Promise<SearchResults<HydratedDocument<Freet>>>} - The freets on the page
+   */
+  static async searchFreets(query: SearchQuery, page: SearchPage, viewerId?: Types.ObjectId | string): Promise<SearchResults<HydratedDocument<Freet>>> {
+    const filter = await this.postFilter(query, viewerId);
+    if (!filter) {
+      return {results: []};
+    }
+
+    if (query.hasComments) {
+      filter['comments.0'] = {$exists: true};
+    }
+
+    // Scheduled freets stay out of search until they are published
+    const {ids, next} = await this.rankByText(FreetModel, {...filter, publishAt: null, $text: {$search: query.text}}, page);
+    return {results: this.inOrder(ids, await FreetCollection.findAllByIds(ids)), next};
+  }
+
+  /**
+   * Search comments, best match first. has:comments doesn't apply to comments.
+   * Comments on freets the viewer can't see are left out too.
+   *
+   * @param {SearchQuery} query - What to look for
+   * @param {SearchPage} page - The page to get
+   * @param {string} viewerId - The id of the user searching, if they are signed in
+   * @return {Promise<SearchResults<HydratedDocument<Comment>>>} - The comments on the page
+   */
+  static async searchComments(query: SearchQuery, page: SearchPage, viewerId?: Types.ObjectId | string): Promise<SearchResults<HydratedDocument<Comment>>> {
+    const filter = await this.postFilter(query, viewerId);
+    if (!filter) {
+      return {results: []};
+    }
+
+    const unviewableIds = await FreetCollection.findUnviewableIds(viewerId);
+    const {ids, next} = await this.rankByText(CommentModel, {...filter, freetId: {$nin: unviewableIds}, $text: {$search: query.text}}, page);
+    return {results: this.inOrder(ids, await CommentCollection.findAllByIds(ids)), next};
+  }
+
+  /**
+   * Search users whose username starts with the query text, in alphabetical
+   * order, except deleted accounts and users the viewer blocked or muted.
+   * Only current usernames are matched, never pseudonyms.
+   *
+   * @param {SearchQuery} query - What to look for; only the text is used
+   * @param {SearchPage} page - The page to get
+   * @param {string} viewerId - The id of the user searching, if they are signed in
+   * @return {Promise<SearchResults<HydratedDocument<User>>>} - The users on the page
+   */
+  static async searchUsers(query: SearchQuery, page: SearchPage, viewerId?: Types.ObjectId | string): Promise<SearchResults<HydratedDocument<User>>> {
+    const prefix = query.text.replace(/^@/, '');
+    if (!/^\w+$/.test(prefix)) {
+      return {results: []};
+    }
+
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    const users = await UserModel.find({
+      // Usernames are only made of word characters, so the prefix needs no escaping
+      username: {$regex: `^${prefix}`, $options: 'i', ...(page.before ? {$gt: page.before} : {})},
+      _id: {$nin: hiddenIds},
+      dateDeleted: null
+    }).sort({username: 1}).limit(page.limit + 1);
+    const results = users.slice(0, page.limit);
+    return {results, next: users.length > page.limit ? results[results.length - 1].username : undefined};
+  }
+
+  /**
+   * Build the filter shared by freet and comment searches. Posts hidden by
+   * moderators, by users the viewer blocked or muted, and by private accounts
+   * that haven't approved the viewer are left out. from: only matches posts
+   * under the author's real username, so anonymous posts are never found by
+   * who wrote them.
+   *
+   * @param {SearchQuery} query - What to look for
+   * @param {string} viewerId - The id of the user searching, if they are signed in
+   * @return {Promise<FilterQuery<Post> | undefined>} - The filter, or nothing if no post can match
+   */
+  static async postFilter(query: SearchQuery, viewerId?: Types.ObjectId | string): Promise<FilterQuery<Post> | undefined> {
+    const hiddenIds = await BlockCollection.findHiddenUserIds(viewerId);
+    const privateIds = await FollowCollection.findInaccessibleUserIds(viewerId);
+    const filter: FilterQuery<Post> = {authorId: {$nin: [...hiddenIds, ...privateIds]}, hidden: {$ne: true}};
+    if (query.author) {
+      const author = await UserCollection.findOneByUsernameOrAlias(query.author);
+      if (!author) {
+        return undefined;
+      }
+
+      filter.authorId = {$eq: author._id, $nin: [...hiddenIds, ...privateIds]};
+      filter.anonymous = false;
+    }
+
+    if (query.since || query.until) {
+      filter.dateCreated = {...(query.since ? {$gte: query.since} : {}), ...(query.until ? {$lt: query.until} : {})};
+    }
+
+    if (query.minUpvotes !== undefined) {
+      filter.upvotes = {$gte: query.minUpvotes};
+    }
+
+    return filter;
+  }
+
+  /**
+   * Rank the documents matching a text search by how well they match, and
+   * get the ids of a page of them
+   *
+   * @param {Model<PostModel>} model - The model to search
+   * @param {FilterQuery<Post>} filter - The filter, including the $text search
+   * @param {SearchPage} page - The page to get
+   * @return {Promise<{ids: Types.ObjectId[], next?: string}>} - The ids on the page, best match
+   *                      first, and the cursor of the next page if there is one
+   */
+  static async rankByText<PostModel extends Post>(model: Model<PostModel>, filter: FilterQuery<Post>, page: SearchPage): Promise<{ids: Types.ObjectId[]; next?: string}> {
+    const cursor = decodeScoreCursor(page.before ?? '');
+    // Aggregations don't cast ids, so the cursor's id is cast by hand
+    const afterCursor = cursor ? [{
+      $match: {
+        $or: [
+          {score: {$lt: cursor.score}},
+          {score: cursor.score, _id: {$lt: new Types.ObjectId(cursor._id)}}
+        ]
+      }
+    }] : [];
+    const ranked = await model.aggregate<{_id: Types.ObjectId; score: number}>([
+      {$match: filter},
+      {$project: {score: {$meta: 'textScore'}}},
+      ...afterCursor,
+      {$sort: {score: -1, _id: -1}},
+      {$limit: page.limit + 1}
+    ]);
+    const results = ranked.slice(0, page.limit);
+    return {
+      ids: results.map(result => result._id),
+      next: ranked.length > page.limit ? encodeScoreCursor(results[results.length - 1]) : undefined
+    };
+  }
+
+  /**
+   * Put documents in the order of their ids
+   *
+   * @param {Types.ObjectId[]} ids - The ids, in order
+   * @param {ResultModel[]} documents - The documents, in any order
+   * @return {ResultModel[]} - The documents in the order of the ids
+   */
+  static inOrder<ResultModel extends {_id: Types.ObjectId}>(ids: Types.ObjectId[], documents: ResultModel[]): ResultModel[] {
+    return ids.map(id => documents.find(document => document._id.equals(id))).filter(Boolean);
+  }
+}
+
+export default SearchCollection;
@@ -0,0 +1,70 @@
+import type {Request, Response, NextFunction} from 'express';
+import type {SearchType} from './util';
+import * as searchUtil from './util';
+import {MAX_PAGE_SIZE} from '../feed/util';
+
+/**
+ * Checks if the search query q in req.query is valid, i.e it has at least one
+ * word besides filters, isn't more than 200 characters, and its filters are well formed
+ */
+const isValidSearchQuery = (req: Request, res: Response, next: NextFunction) => {
+  const {q} = req.query;
+  if (typeof q !== 'string' || !q.trim()) {
+    res.status(400).json({
+      error: 'Enter something to search for.'
+    });
+    return;
+  }
+
+  if (q.length > searchUtil.MAX_QUERY_LENGTH) {
+    res.status(413).json({
+      error: `Searches must be no more than ${searchUtil.MAX_QUERY_LENGTH} characters.`
+    });
+    return;
+  }
+
+  const {error} = searchUtil.parseSearchQuery(q);
+  if (error) {
+    res.status(400).json({error});
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the type, before and limit in req.query are valid, i.e type is
+ * freets, comments or users, before is a cursor of that type of results,
+ * and limit is a whole number from 1 to 50
+ */
+const isValidSearchPage = (req: Request, res: Response, next: NextFunction) => {
+  const {type, before, limit} = req.query;
+  if (type !== undefined && !searchUtil.SEARCH_TYPES.includes(type as SearchType)) {
+    res.status(400).json({
+      error: `type must be one of ${searchUtil.SEARCH_TYPES.join(', ')}.`
+    });
+    return;
+  }
+
+  if (before !== undefined && (typeof before !== 'string' || !searchUtil.isValidSearchCursor((type ?? 'freets') as SearchType, before))) {
+    res.status(400).json({
+      error: 'before must be a cursor from a previous page of the same type of results.'
+    });
+    return;
+  }
+
+  const pageSize = Number(limit);
+  if (limit !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE)) {
+    res.status(400).json({
+      error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidSearchQuery,
+  isValidSearchPage
+};
@@ -0,0 +1,64 @@
+import type {Request, Response} from 'express';
+import express from 'express';
+import SearchCollection from './collection';
+import * as searchValidator from './middleware';
+import * as util from './util';
+import * as freetUtil from '../freet/util';
+import * as commentUtil from '../comments/util';
+import {DEFAULT_PAGE_SIZE} from '../feed/util';
+
+const router = express.Router();
+
+/**
+ * Search freets, comments or users. Freets and comments are ranked by how
+ * well their content matches, and users are matched by the start of their
+ * username. The query can have filters for freets and comments:
+ * from:username, since:YYYY-MM-DD, until:YYYY-MM-DD, has:comments (freets only)
+ * and min_upvotes:number. from: never matches anonymous posts. Pass the next
+ * cursor of a page as before to get the next page.
+ *
+ * @name GET /api/search?q=query&type=freets|comments|users&before=cursor&limit=number
+ *
+ * @return {{freets: FreetResponse[], next?: string}} - With type freets (the default), the freets
+ *                      on the page, best match first, and the cursor of the next page if there is one
+ * @return {{comments: CommentResponse[], next?: string}} - With type comments, the same for comments
+ * @return {{users: SearchUserResponse[], next?: string}} - With type users, the users on the page
+ *                      in alphabetical order
+ * @throws {400} - If q is empty or has an invalid filter, type is invalid, before is not
+ *                 a cursor of that type of results, or limit is not from 1 to 50
+ * @throws {413} - If q is more than 200 characters long
+ */
+router.get(
+  '/',
+  [
+    searchValidator.isValidSearchQuery,
+    searchValidator.isValidSearchPage
+  ],
+  async (req: Request, res: Response) => {
+    const {query} = util.parseSearchQuery(req.query.q as string);
+    const page = {
+      before: req.query.before as string,
+      limit: req.query.limit ? Number(req.query.limit) : DEFAULT_PAGE_SIZE
+    };
+    switch (req.query.type ?? 'freets') {
+      case 'comments': {
+        const {results, next} = await SearchCollection.searchComments(query, page, req.session.userId);
+        res.status(200).json({comments: results.map(commentUtil.constructCommentResponse), next});
+        break;
+      }
+
+      case 'users': {
+        const {results, next} = await SearchCollection.searchUsers(query, page, req.session.userId);
+        res.status(200).json({users: results.map(util.constructSearchUserResponse), next});
+        break;
+      }
+
+      default: {
+        const {results, next} = await SearchCollection.searchFreets(query, page, req.session.userId);
+        res.status(200).json({freets: results.map(freetUtil.constructFreetResponse), next});
+      }
+    }
+  }
+);
+
+export {router as searchRouter};
@@ -0,0 +1,168 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {User} from '../user/model';
+
+// Update this if you add a property to the User type that search should show!
+type SearchUserResponse = {
+  username: string;
+  private: boolean;
+};
+
+// What to search for
+export type SearchType = 'freets' | 'comments' | 'users';
+export const SEARCH_TYPES: SearchType[] = ['freets', 'comments', 'users'];
+
+// The longest search query we accept
+export const MAX_QUERY_LENGTH = 200;
+
+// A parsed search query: the text to look for and the filters to apply
+export type SearchQuery = {
+  text: string; // Words to look for, in the content or at the start of usernames
+  author?: string; // Written as from:username, only posts under the author's real username
+  since?: Date; // Written as since:YYYY-MM-DD, posted on or after this day
+  until?: Date; // Written as until:YYYY-MM-DD, posted before the end of this day
+  hasComments: boolean; // Written as has:comments, only freets with comments
+  minUpvotes?: number; // Written as min_upvotes:number
+};
+
+// A page of search results: results ranked below the cursor, at most limit of them
+export type SearchPage = {
+  before?: string; // The next cursor of the previous page
+  limit: number;
+};
+
+// A search filter written in the query, like from:alice
+const OPERATOR_REGEX = /^(from|since|until|has|min_upvotes):(\S*)$/i;
+
+// How dates are written in since: and until:
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// One day, in milliseconds
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a date written as YYYY-MM-DD
+ *
+ * @param {string} value - The date
+ * @return {Date | undefined} - Midnight UTC on that day, if it is a real date
+ */
+const parseDate = (value: string): Date | undefined => {
+  if (!DATE_REGEX.test(value)) {
+    return undefined;
+  }
+
+  // Days that don't exist, like 2023-02-30, roll over to the next month
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : undefined;
+};
+
+/**
+ * Split a search query into the text to look for and the filters written in
+ * it: from:username, since:YYYY-MM-DD, until:YYYY-MM-DD, has:comments and
+ * min_upvotes:number
+ *
+ * @param {string} q - The search query
+ * @return {{query?: SearchQuery, error?: string}} - The parsed query, or why it is invalid
+ */
+const parseSearchQuery = (q: string): {query?: SearchQuery; error?: string} => {
+  const query: SearchQuery = {text: '', hasComments: false};
+  const words = [];
+  for (const word of q.trim().split(/\s+/)) {
+    const match = OPERATOR_REGEX.exec(word);
+    if (!match) {
+      words.push(word);
+      continue;
+    }
+
+    const [, operator, value] = match;
+    switch (operator.toLowerCase()) {
+      case 'from':
+        query.author = value.replace(/^@/, '');
+        break;
+      case 'since':
+      case 'until': {
+        const date = parseDate(value);
+        if (!date) {
+          return {error: `${operator}: must be a date written as YYYY-MM-DD.`};
+        }
+
+        if (operator.toLowerCase() === 'since') {
+          query.since = date;
+        } else {
+          query.until = new Date(date.getTime() + DAY);
+        }
+
+        break;
+      }
+
+      case 'has':
+        if (value.toLowerCase() !== 'comments') {
+          return {error: 'has: only works with comments, as in has:comments.'};
+        }
+
+        query.hasComments = true;
+        break;
+      default:
+        if (!/^-?\d+$/.test(value)) {
+          return {error: 'min_upvotes: must be a whole number.'};
+        }
+
+        query.minUpvotes = Number(value);
+    }
+  }
+
+  query.text = words.join(' ');
+  return query.text ? {query} : {error: 'Search for at least one word besides the filters.'};
+};
+
+/**
+ * Make the cursor pointing at a content search result
+ *
+ * @param {{_id: Types.ObjectId, score: number}} result - A result and how well it matched
+ * @return {string} - The cursor, the score and the id
+ */
+const encodeScoreCursor = (result: {_id: Types.ObjectId; score: number}): string => `${result.score}_${result._id.toString()}`;
+
+/**
+ * Read a cursor made by encodeScoreCursor
+ *
+ * @param {string} cursor - A cursor
+ * @return {{score: number, _id: string} | undefined} - What the cursor points at, if it is well formed
+ */
+const decodeScoreCursor = (cursor: string): {score: number; _id: string} | undefined => {
+  const match = /^(\d+(?:\.\d+)?(?:e-?\d+)?)_([a-f\d]{24})$/i.exec(cursor);
+  return match ? {score: Number(match[1]), _id: match[2]} : undefined;
+};
+
+/**
+ * Check whether a cursor of a page of search results is well formed. User
+ * results are ordered by username, so their cursor is a username.
+ *
+ * @param {SearchType} type - What was searched for
+ * @param {string} cursor - The cursor
+ * @return {boolean} - Whether the cursor is well formed
+ */
+const isValidSearchCursor = (type: SearchType, cursor: string): boolean => (
+  type === 'users' ? /^\w+$/.test(cursor) : Boolean(decodeScoreCursor(cursor))
+);
+
+/**
+ * Transform a user found by a search into an object with only what the
+ * frontend needs. Never add the pseudonym: it would unmask anonymous posts.
+ *
+ * @param {HydratedDocument<User>} user - A user
+ * @returns {SearchUserResponse} - The user formatted for the frontend
+ */
+const constructSearchUserResponse = (user: HydratedDocument<User>): SearchUserResponse => ({
+  username: user.username,
+  private: Boolean(user.private)
+});
+
+export type {SearchUserResponse};
+
+export {
+  parseSearchQuery,
+  encodeScoreCursor,
+  decodeScoreCursor,
+  isValidSearchCursor,
+  constructSearchUserResponse
+};
@@ -0,0 +1,152 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Store} from 'express-session';
+import type {Session} from './model';
+import SessionModel from './model';
+
+// Requests closer together than this don't update a session's last seen time
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Check whether the session store still holds a session
+ *
+ * @param {Store} store - The express-session store
+ * @param {string} sessionId - The id of the session
+ * @return {Promise<boolean>} - true if the session has not expired or been destroyed
+ */
+const isSessionStored = async (store: Store, sessionId: string): Promise<boolean> => new Promise((resolve, reject) => {
+  store.get(sessionId, (err, data) => {
+    if (err) {
+      reject(err);
+    } else {
+      resolve(Boolean(data));
+    }
+  });
+});
+
+/**
+ * Remove a session from the session store, signing out whoever uses it
+ *
+ * @param {Store} store - The express-session store
+ * @param {string} sessionId - The id of the session
+ */
+const destroyStoredSession = async (store: Store, sessionId: string): Promise<void> => new Promise((resolve, reject) => {
+  store.destroy(sessionId, err => {
+    if (err) {
+      reject(err);
+    } else {
+      resolve();
+    }
+  });
+});
+
+/**
+ * This file contains a class with functionality to interact with the sessions
+ * users are signed in on. Sessions are recorded as they are used, so sessions
+ * that began before they were tracked show up on their next request.
+ */
+class SessionCollection {
+  /**
+   * Record that a session was used by a user
+   *
+   * @param {string} sessionId - The express-session id of the session
+   * @param {string} userId - The id of the user signed in on the session
+   * @param {string} userAgent - The user agent of the request
+   * @return {Promise<HydratedDocument<Session>>} - The recorded session
+   */
+  static async touch(sessionId: string, userId: Types.ObjectId | string, userAgent = ''): Promise<HydratedDocument<Session>> {
+    const now = new Date();
+    const session = await SessionModel.findOne({sessionId});
+    if (!session) {
+      return SessionModel.create({sessionId, userId, userAgent, dateCreated: now, lastSeen: now});
+    }
+
+    // The same browser session can sign in to another account
+    if (session.userId.toString() !== userId.toString()) {
+      session.userId = userId as Types.ObjectId;
+      session.userAgent = userAgent;
+      session.dateCreated = now;
+    }
+
+    if (session.isModified() || now.getTime() - session.lastSeen.getTime() > LAST_SEEN_RESOLUTION_MS) {
+      session.lastSeen = now;
+      await session.save();
+    }
+
+    return session;
+  }
+
+  /**
+   * Find one of a user's sessions
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} id - The id of the session record (not the express-session id)
+   * @return {Promise<HydratedDocument<Session>> | Promise<null>} - The session, if any
+   */
+  static async findOne(userId: Types.ObjectId | string, id: Types.ObjectId | string): Promise<HydratedDocument<Session>> {
+    return SessionModel.findOne({_id: id, userId});
+  }
+
+  /**
+   * Get a user's active sessions, most recently used first. Sessions that
+   * expired from the store are forgotten along the way.
+   *
+   * @param {string} userId - The id of the user
+   * @param {Store} store - The express-session store
+   * @return {Promise<HydratedDocument<Session>[]>} - The user's active sessions
+   */
+  static async findAllByUserId(userId: Types.ObjectId | string, store: Store): Promise<Array<HydratedDocument<Session>>> {
+    const sessions = await SessionModel.find({userId}).sort({lastSeen: -1});
+    const stored = await Promise.all(sessions.map(async session => isSessionStored(store, session.sessionId)));
+    const expiredIds = sessions.filter((_, i) => !stored[i]).map(session => session._id);
+    if (expiredIds.length) {
+      await SessionModel.deleteMany({_id: {$in: expiredIds}});
+    }
+
+    return sessions.filter((_, i) => stored[i]);
+  }
+
+  /**
+   * Sign out a session and forget it
+   *
+   * @param {Session} session - The session to end
+   * @param {Store} store - The express-session store
+   */
+  static async destroyOne(session: Session, store: Store): Promise<void> {
+    await destroyStoredSession(store, session.sessionId);
+    await SessionModel.deleteOne({_id: session._id});
+  }
+
+  /**
+   * Sign out all of a user's sessions except one
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} keepSessionId - The express-session id of the session to keep
+   * @param {Store} store - The express-session store
+   * @return {Promise<number>} - The number of sessions signed out
+   */
+  static async destroyAllExcept(userId: Types.ObjectId | string, keepSessionId: string, store: Store): Promise<number> {
+    const sessions = await SessionModel.find({userId, sessionId: {$ne: keepSessionId}});
+    await Promise.all(sessions.map(async session => this.destroyOne(session, store)));
+    return sessions.length;
+  }
+
+  /**
+   * Forget a session that was signed out
+   *
+   * @param {string} sessionId - The express-session id of the session
+   */
+  static async deleteOne(sessionId: string): Promise<void> {
+    await SessionModel.deleteOne({sessionId});
+  }
+
+  /**
+   * Forget all of a user's sessions
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await SessionModel.deleteMany({userId});
+  }
+}
+
+export default SessionCollection;
@@ -0,0 +1,35 @@
+import type {Request, Response, NextFunction} from 'express';
+import {Types} from 'mongoose';
+import SessionCollection from './collection';
+
+/**
+ * Records that the current session was used, if a user is signed in on it.
+ * Requests made with an access token have no session to record.
+ */
+const trackSession = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.session.userId && req.sessionID) {
+    await SessionCollection.touch(req.sessionID, req.session.userId, req.get('User-Agent'));
+  }
+
+  next();
+};
+
+/**
+ * Checks if the session with id req.params.id is one of the current user's sessions
+ */
+const isSessionExists = async (req: Request, res: Response, next: NextFunction) => {
+  const session = Types.ObjectId.isValid(req.params.id) ? await SessionCollection.findOne(req.session.userId, req.params.id) : null;
+  if (!session) {
+    res.status(404).json({
+      error: `Session with id ${req.params.id} does not exist.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  trackSession,
+  isSessionExists
+};
@@ -0,0 +1,57 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a Session. The session data
+ * itself lives in connect-mongo's store; this keeps track of which user each
+ * session belongs to so that users can see and end their sessions.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+// Type definition for Session on the backend
+export type Session = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  sessionId: string; // The express-session id; never sent to the frontend
+  userId: Types.ObjectId;
+  userAgent: string;
+  dateCreated: Date;
+  lastSeen: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Sessions stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const SessionSchema = new Schema<Session>({
+  // The id express-session gave the session
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The user signed in on the session
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  // The user agent of the browser that signed in
+  userAgent: {
+    type: String,
+    default: ''
+  },
+  // The date the user signed in
+  dateCreated: {
+    type: Date,
+    required: true
+  },
+  // The date of the last request made with the session
+  lastSeen: {
+    type: Date,
+    required: true
+  }
+});
+
+const SessionModel = model<Session>('Session', SessionSchema);
+export default SessionModel;
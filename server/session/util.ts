@@ -0,0 +1,59 @@
+import type {Request} from 'express';
+import type {Store} from 'express-session';
+import type {HydratedDocument} from 'mongoose';
+import moment from 'moment';
+import type {Session} from '../session/model';
+
+// Update this if you add a property to the Session type!
+type SessionResponse = {
+  _id: string;
+  userAgent: string;
+  dateCreated: string;
+  lastSeen: string;
+  current: boolean;
+};
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Get the express-session store, which api/index.ts keeps in app.locals
+ *
+ * @param {Request} req - A request
+ * @returns {Store} - The store sessions are kept in
+ */
+const getSessionStore = (req: Request): Store => req.app.locals.sessionStore as Store;
+
+/**
+ * Transform a raw Session object from the database into an object
+ * with all the information needed by the frontend. The express-session
+ * id is left out since it is as good as the user's cookie.
+ *
+ * @param {HydratedDocument<Session>} session - A session
+ * @param {string} currentSessionId - The express-session id of the request
+ * @returns {SessionResponse} - The session object formatted for the frontend
+ */
+const constructSessionResponse = (session: HydratedDocument<Session>, currentSessionId: string): SessionResponse => {
+  const sessionCopy: Session = {
+    ...session.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    _id: sessionCopy._id.toString(),
+    userAgent: sessionCopy.userAgent,
+    dateCreated: formatDate(session.dateCreated),
+    lastSeen: formatDate(session.lastSeen),
+    current: sessionCopy.sessionId === currentSessionId
+  };
+};
+
+export {
+  getSessionStore,
+  constructSessionResponse
+};
@@ -0,0 +1,59 @@
+import FreetModel from '../freet/model';
+import FreetCollection from '../freet/collection';
+import UserCollection from '../user/collection';
+import type {TrendingTagResponse} from './util';
+
+// How far back each trending window looks, in milliseconds
+export const TRENDING_WINDOWS = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+export type TrendingWindow = keyof typeof TRENDING_WINDOWS;
+
+// How many trending tags are returned
+const TRENDING_LIMIT = 10;
+
+/**
+ * This file contains a class that ranks the tags used in freets. The tags
+ * themselves are stored on each freet when it is written.
+ */
+class TagCollection {
+  /**
+   * Rank the tags used in the window of time that just ended by the number
+   * of freets that used them. Ties go to the tag that grew the most since
+   * the window before. Freets hidden by moderators and those by private
+   * accounts don't count, and neither do scheduled ones until they are
+   * published. A freet counts when it was posted, so editing an old freet
+   * doesn't make its tags trend again.
+   *
+   * @param {TrendingWindow} window - How far back to look
+   * @return {Promise<TrendingTagResponse[]>} - The top tags, most used first
+   */
+  static async findTrending(window: TrendingWindow): Promise<TrendingTagResponse[]> {
+    const now = Date.now();
+    const windowStart = new Date(now - TRENDING_WINDOWS[window]);
+    const previousWindowStart = new Date(now - (2 * TRENDING_WINDOWS[window]));
+    const privateIds = await UserCollection.findPrivateIds();
+    await FreetCollection.publishDue();
+    const inWindow = {$gte: ['$dateCreated', windowStart]};
+    return FreetModel.aggregate<TrendingTagResponse>([
+      {$match: {dateCreated: {$gte: previousWindowStart}, 'tags.0': {$exists: true}, authorId: {$nin: privateIds}, hidden: {$ne: true}, publishAt: null}},
+      {$unwind: '$tags'},
+      {
+        $group: {
+          _id: '$tags',
+          uses: {$sum: {$cond: [inWindow, 1, 0]}},
+          previousUses: {$sum: {$cond: [inWindow, 0, 1]}}
+        }
+      },
+      {$match: {uses: {$gt: 0}}},
+      {$sort: {uses: -1, previousUses: 1, _id: 1}},
+      {$limit: TRENDING_LIMIT},
+      {$project: {_id: 0, tag: '$_id', uses: 1, previousUses: 1}}
+    ]);
+  }
+}
+
+export default TagCollection;
@@ -0,0 +1,37 @@
+import type {Request, Response, NextFunction} from 'express';
+import {TRENDING_WINDOWS} from './collection';
+import {isTag, MAX_TAG_LENGTH} from './util';
+
+/**
+ * Checks if the tag in req.params is a tag, with or without the #
+ */
+const isValidTag = (req: Request, res: Response, next: NextFunction) => {
+  if (!isTag(req.params.tag.replace(/^#/, ''))) {
+    res.status(400).json({
+      error: `A tag is made of letters, numbers and underscores, at most ${MAX_TAG_LENGTH} of them, and isn't just a number.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the optional window in req.query is one of the trending windows
+ */
+const isValidTrendingWindow = (req: Request, res: Response, next: NextFunction) => {
+  const {window} = req.query;
+  if (window !== undefined && !Object.keys(TRENDING_WINDOWS).includes(window as string)) {
+    res.status(400).json({
+      error: `window must be one of ${Object.keys(TRENDING_WINDOWS).join(', ')}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  isValidTag,
+  isValidTrendingWindow
+};
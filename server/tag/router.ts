@@ -0,0 +1,31 @@
+import type {Request, Response} from 'express';
+import express from 'express';
+import type {TrendingWindow} from './collection';
+import TagCollection from './collection';
+import * as tagValidator from './middleware';
+
+const router = express.Router();
+
+/**
+ * Get the tags used in the most freets lately. A freet's tags are found when
+ * it is written; see GET /api/freets/tags/:tag for a tag's freets.
+ *
+ * @name GET /api/tags/trending?window=hour|day|week
+ *
+ * @return {TrendingTagResponse[]} - The top 10 tags in the window that just ended,
+ *                      most used first, with how much they were used in the window before
+ * @throws {400} - If window is not hour, day or week
+ */
+router.get(
+  '/trending',
+  [
+    tagValidator.isValidTrendingWindow
+  ],
+  async (req: Request, res: Response) => {
+    const window = (req.query.window ?? 'day') as TrendingWindow;
+    const tags = await TagCollection.findTrending(window);
+    res.status(200).json(tags);
+  }
+);
+
+export {router as tagRouter};
@@ -0,0 +1,60 @@
+// Update this if you change what FreetCollection.findTrendingTags returns!
+type TrendingTagResponse = {
+  tag: string;
+  uses: number; // Freets that used the tag in the window
+  previousUses: number; // Freets that used the tag in the window before it
+};
+
+// The longest tag we keep
+export const MAX_TAG_LENGTH = 50;
+
+// Matches a # followed by a tag, unless the # is part of a word or an HTML entity like &#39;
+const TAG_REGEX = /(^|[^\w#&])#(\w+)/g;
+
+// A tag has to have a letter or underscore in it, so #1 isn't a tag
+const VALID_TAG_REGEX = /^\w*[a-z_]\w*$/i;
+
+/**
+ * Put a tag in the form it is stored in, so that #Fritter and #fritter match
+ *
+ * @param {string} tag - A tag, with or without the #
+ * @return {string} - The tag, lowercased and without the #
+ */
+const normalizeTag = (tag: string): string => tag.replace(/^#/, '').toLowerCase();
+
+/**
+ * Check whether some text can be a tag
+ *
+ * @param {string} tag - The text, without the #
+ * @return {boolean} - Whether it is a tag
+ */
+const isTag = (tag: string): boolean => tag.length <= MAX_TAG_LENGTH && VALID_TAG_REGEX.test(tag);
+
+/**
+ * Find every #tag in a text
+ *
+ * @param {string} content - The text of a freet
+ * @return {string[]} - The distinct tags, normalized, in the order they first appear
+ */
+const findTags = (content: string): string[] => {
+  const tags: string[] = [];
+  const regex = new RegExp(TAG_REGEX.source, 'g');
+  let match = regex.exec(content);
+  while (match) {
+    if (isTag(match[2])) {
+      tags.push(normalizeTag(match[2]));
+    }
+
+    match = regex.exec(content);
+  }
+
+  return [...new Set(tags)];
+};
+
+export type {TrendingTagResponse};
+
+export {
+  normalizeTag,
+  isTag,
+  findTags
+};
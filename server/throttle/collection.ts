@@ -0,0 +1,125 @@
+import type {HydratedDocument} from 'mongoose';
+import type {Throttle, ThrottleAction, ThrottleScope} from './model';
+import ThrottleModel from './model';
+
+// Attempts allowed before backing off, and before locking out, per scope.
+// IP addresses get more room since many people can share one.
+const POLICIES: Record<ThrottleScope, {freeAttempts: number; lockoutAttempts: number}> = {
+  ip: {freeAttempts: 10, lockoutAttempts: 50},
+  username: {freeAttempts: 5, lockoutAttempts: 10}
+};
+
+const BACKOFF_BASE_MS = 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// The count starts over after this long without an attempt
+const RESET_AFTER_MS = 60 * 60 * 1000;
+
+/**
+ * How long to refuse attempts after the given number of attempts. The wait
+ * doubles with each attempt past the free ones, up to the lockout.
+ *
+ * @param {ThrottleScope} scope - Whether the attempts are per IP or per username
+ * @param {number} attempts - The number of recent attempts
+ * @return {number} - The wait in milliseconds
+ */
+const getDelay = (scope: ThrottleScope, attempts: number): number => {
+  const {freeAttempts, lockoutAttempts} = POLICIES[scope];
+  if (attempts >= lockoutAttempts) {
+    return LOCKOUT_MS;
+  }
+
+  if (attempts < freeAttempts) {
+    return 0;
+  }
+
+  return Math.min(BACKOFF_BASE_MS * (2 ** (attempts - freeAttempts)), LOCKOUT_MS);
+};
+
+/**
+ * This file contains a class with functionality to count attempts at logging
+ * in and signing up, and to tell when someone has to wait before trying again.
+ */
+class ThrottleCollection {
+  /**
+   * Find the throttle that keeps an action locked the longest, if any
+   *
+   * @param {ThrottleAction} action - The action being attempted
+   * @param {Partial<Record<ThrottleScope, string>>} values - The IP address and/or username of the attempt
+   * @return {Promise<HydratedDocument<Throttle>> | Promise<null>} - The throttle, if the action is locked
+   */
+  static async findLocked(action: ThrottleAction, values: Partial<Record<ThrottleScope, string>>): Promise<HydratedDocument<Throttle>> {
+    const conditions = Object.entries(values).map(([scope, value]) => ({scope, value: value.toLowerCase()}));
+    if (!conditions.length) {
+      return null;
+    }
+
+    return ThrottleModel.findOne({action, $or: conditions, lockedUntil: {$gt: new Date()}}).sort({lockedUntil: -1});
+  }
+
+  /**
+   * Count an attempt at an action, locking it for a while if there have been
+   * too many recently
+   *
+   * @param {ThrottleAction} action - The action being attempted
+   * @param {Partial<Record<ThrottleScope, string>>} values - The IP address and/or username of the attempt
+   */
+  static async recordAttempt(action: ThrottleAction, values: Partial<Record<ThrottleScope, string>>): Promise<void> {
+    const now = new Date();
+    await Promise.all(Object.entries(values).map(async ([scope, value]: [ThrottleScope, string]) => {
+      const filter = {action, scope, value: value.toLowerCase()};
+      const throttle = await this.countAttempt(filter, now);
+      const delay = getDelay(scope, throttle.attempts);
+      if (delay) {
+        await ThrottleModel.updateOne(filter, {$max: {lockedUntil: new Date(now.getTime() + delay)}});
+      }
+    }));
+  }
+
+  /**
+   * Add an attempt to a throttle's count in a single update, starting the
+   * count over if the last attempt was too long ago. Concurrent attempts
+   * from different instances are all counted; if two of them both create
+   * the throttle, the one that loses on the unique index tries again.
+   *
+   * @param {Object} filter - The action, scope and value of the throttle
+   * @param {Date} now - When the attempt was made
+   * @param {boolean} retried - Whether this is the try after losing the race to create the throttle
+   * @return {Promise<HydratedDocument<Throttle>>} - The throttle with the attempt counted
+   */
+  static async countAttempt(filter: {action: ThrottleAction; scope: ThrottleScope; value: string}, now: Date, retried = false): Promise<HydratedDocument<Throttle>> {
+    const stale = {$lt: ['$lastAttempt', new Date(now.getTime() - RESET_AFTER_MS)]}; // Also true for a new throttle
+    try {
+      return await ThrottleModel.findOneAndUpdate(
+        filter,
+        [{
+          $set: {
+            attempts: {$cond: [stale, 1, {$add: ['$attempts', 1]}]},
+            lockedUntil: {$cond: [stale, '$$REMOVE', '$lockedUntil']},
+            lastAttempt: now
+          }
+        }],
+        {upsert: true, new: true}
+      );
+    } catch (error: unknown) {
+      if (!retried && (error as {code?: number}).code === 11000) {
+        return this.countAttempt(filter, now, true);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the attempts at an action, e.g. once a user logs in successfully
+   *
+   * @param {ThrottleAction} action - The action that was attempted
+   * @param {ThrottleScope} scope - Whether to reset the count for an IP address or a username
+   * @param {string} value - The IP address or username
+   */
+  static async reset(action: ThrottleAction, scope: ThrottleScope, value: string): Promise<void> {
+    await ThrottleModel.deleteOne({action, scope, value: value.toLowerCase()});
+  }
+}
+
+export default ThrottleCollection;
@@ -0,0 +1,69 @@
+import type {Request, Response, NextFunction} from 'express';
+import type {ThrottleAction, ThrottleScope} from './model';
+import ThrottleCollection from './collection';
+
+/**
+ * Refuses the request with a 429 if the action is locked for any of the
+ * given IP address or username
+ */
+const refuseIfLocked = async (action: ThrottleAction, values: Partial<Record<ThrottleScope, string>>, res: Response): Promise<boolean> => {
+  const throttle = await ThrottleCollection.findLocked(action, values);
+  if (!throttle) {
+    return false;
+  }
+
+  const retryAfter = Math.ceil((throttle.lockedUntil.getTime() - Date.now()) / 1000);
+  res.set('Retry-After', retryAfter.toString());
+  res.status(429).json({
+    error: `Too many attempts. Try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+    retryAfter
+  });
+  return true;
+};
+
+/**
+ * Checks that neither the IP address of the request nor the username in
+ * req.body has had too many failed logins recently
+ */
+const isLoginNotThrottled = async (req: Request, res: Response, next: NextFunction) => {
+  const {username} = req.body as {username: string};
+  const values = typeof username === 'string' && username.trim() ? {ip: req.ip, username: username.trim()} : {ip: req.ip};
+  if (await refuseIfLocked('login', values, res)) {
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks that neither the IP address of the request nor the username in
+ * req.body has had too many failed account recoveries recently
+ */
+const isRecoveryNotThrottled = async (req: Request, res: Response, next: NextFunction) => {
+  const {username} = req.body as {username: string};
+  const values = typeof username === 'string' && username.trim() ? {ip: req.ip, username: username.trim()} : {ip: req.ip};
+  if (await refuseIfLocked('recover', values, res)) {
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks that the IP address of the request has not signed up too often
+ * recently, and counts this attempt
+ */
+const isSignUpNotThrottled = async (req: Request, res: Response, next: NextFunction) => {
+  if (await refuseIfLocked('signup', {ip: req.ip}, res)) {
+    return;
+  }
+
+  await ThrottleCollection.recordAttempt('signup', {ip: req.ip});
+  next();
+};
+
+export {
+  isLoginNotThrottled,
+  isRecoveryNotThrottled,
+  isSignUpNotThrottled
+};
@@ -0,0 +1,66 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a Throttle, which counts recent
+ * attempts at a sensitive action from one IP address or against one username.
+ * Keeping these in MongoDB lets every serverless instance see the same counts.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+export type ThrottleAction = 'login' | 'signup' | 'recover';
+export type ThrottleScope = 'ip' | 'username';
+
+// Type definition for Throttle on the backend
+export type Throttle = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  action: ThrottleAction;
+  scope: ThrottleScope;
+  value: string; // The IP address or lowercased username
+  attempts: number;
+  lastAttempt: Date;
+  lockedUntil?: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Throttles stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const ThrottleSchema = new Schema<Throttle>({
+  // The throttled action
+  action: {
+    type: String,
+    enum: ['login', 'signup', 'recover'],
+    required: true
+  },
+  // Whether attempts are counted per IP address or per username
+  scope: {
+    type: String,
+    enum: ['ip', 'username'],
+    required: true
+  },
+  // The IP address or username the attempts came from or targeted
+  value: {
+    type: String,
+    required: true
+  },
+  // The number of attempts since the count was last reset
+  attempts: {
+    type: Number,
+    required: true
+  },
+  // The date of the latest attempt; idle throttles are removed after a day
+  lastAttempt: {
+    type: Date,
+    required: true,
+    expires: '1d'
+  },
+  // Attempts are refused until this date
+  lockedUntil: {
+    type: Date
+  }
+});
+
+ThrottleSchema.index({action: 1, scope: 1, value: 1}, {unique: true});
+
+const ThrottleModel = model<Throttle>('Throttle', ThrottleSchema);
+export default ThrottleModel;
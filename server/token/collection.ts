@@ -0,0 +1,86 @@
+import type {HydratedDocument, Types} from 'mongoose';
+import type {Token, TokenScope} from './model';
+import TokenModel from './model';
+import {generateToken, hashToken, TOKEN_PREFIX_LENGTH} from './util';
+
+/**
+ * This file contains a class with functionality to interact with personal
+ * access tokens stored in MongoDB.
+ */
+class TokenCollection {
+  /**
+   * Create a personal access token. The token itself is only returned here;
+   * afterwards it can't be recovered from the database.
+   *
+   * @param {string} userId - The id of the user the token acts for
+   * @param {string} name - The name of the token
+   * @param {TokenScope[]} scopes - What the token may be used for
+   * @return {Promise<{token: HydratedDocument<Token>, secret: string}>} - The new token and its secret value
+   */
+  static async addOne(userId: Types.ObjectId | string, name: string, scopes: TokenScope[]): Promise<{token: HydratedDocument<Token>; secret: string}> {
+    const secret = generateToken();
+    const token = new TokenModel({
+      userId,
+      name,
+      scopes: [...new Set(scopes)],
+      tokenHash: hashToken(secret),
+      prefix: secret.slice(0, TOKEN_PREFIX_LENGTH),
+      dateCreated: new Date()
+    });
+    await token.save(); // Saves token to MongoDB
+    return {token, secret};
+  }
+
+  /**
+   * Find one of a user's tokens
+   *
+   * @param {string} userId - The id of the user
+   * @param {string} tokenId - The id of the token
+   * @return {Promise<HydratedDocument<Token>> | Promise<null>} - The token, if any
+   */
+  static async findOne(userId: Types.ObjectId | string, tokenId: Types.ObjectId | string): Promise<HydratedDocument<Token>> {
+    return TokenModel.findOne({_id: tokenId, userId});
+  }
+
+  /**
+   * Find the token with the given secret value and record that it was used
+   *
+   * @param {string} secret - The token sent by the client
+   * @return {Promise<HydratedDocument<Token>> | Promise<null>} - The token, if it exists and has not been revoked
+   */
+  static async findOneBySecretAndTouch(secret: string): Promise<HydratedDocument<Token>> {
+    return TokenModel.findOneAndUpdate({tokenHash: hashToken(secret)}, {$set: {lastUsed: new Date()}}, {new: true});
+  }
+
+  /**
+   * Get all of a user's tokens, most recent first
+   *
+   * @param {string} userId - The id of the user
+   * @return {Promise<HydratedDocument<Token>[]>} - The user's tokens
+   */
+  static async findAllByUserId(userId: Types.ObjectId | string): Promise<Array<HydratedDocument<Token>>> {
+    return TokenModel.find({userId}).sort({dateCreated: -1});
+  }
+
+  /**
+   * Revoke a token
+   *
+   * @param {string} tokenId - The id of the token
+   * @return {Promise<Boolean>} - true if the token has been deleted, false otherwise
+   */
+  static async deleteOne(tokenId: Types.ObjectId | string): Promise<boolean> {
+    const token = await TokenModel.deleteOne({_id: tokenId});
+    return token !== null;
+  }
+
+  /**
+   * Revoke all of a user's tokens
+   *
+   * @param {string} userId - The id of the user
+   */
+  static async deleteMany(userId: Types.ObjectId | string): Promise<void> {
+    await TokenModel.deleteMany({userId});
+  }
+}
+
+export default TokenCollection;
@@ -0,0 +1,118 @@
+import type {Request, Response, NextFunction} from 'express';
+import {Types} from 'mongoose';
+import type {TokenScope} from './model';
+import TokenCollection from './collection';
+
+const MAX_TOKEN_NAME_LENGTH = 50;
+
+/**
+ * Signs the request in as the owner of the personal access token in the
+ * Authorization header, if there is one. This has to run before
+ * express-session, which leaves a req.session that is already set alone, so
+ * token requests never create a cookie or a stored session.
+ */
+const authenticateBearerToken = async (req: Request, res: Response, next: NextFunction) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') ?? '');
+  if (!match) {
+    next();
+    return;
+  }
+
+  const token = await TokenCollection.findOneBySecretAndTouch(match[1]);
+  if (!token) {
+    res.status(401).json({
+      error: 'Invalid or revoked access token.'
+    });
+    return;
+  }
+
+  const scope: TokenScope = ['GET', 'HEAD'].includes(req.method) ? 'read' : 'write';
+  if (!token.scopes.includes(scope)) {
+    res.status(403).json({
+      error: `This access token does not have the ${scope} scope.`
+    });
+    return;
+  }
+
+  // A bare session: only userId is ever read, and nothing saves it
+  const tokenSession: Partial<Express.Session> = {userId: token.userId.toString()};
+  req.session = tokenSession as Express.Session;
+  res.locals.accessToken = token;
+  next();
+};
+
+/**
+ * Checks that the user signed in with a session cookie rather than an access
+ * token, for actions that manage the account itself
+ */
+const isNotUsingAccessToken = (req: Request, res: Response, next: NextFunction) => {
+  if (res.locals.accessToken) {
+    res.status(403).json({
+      error: 'Access tokens cannot be used to manage your account.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the token name in req.body is nonempty and not too long
+ */
+const isValidTokenName = (req: Request, res: Response, next: NextFunction) => {
+  const {name} = req.body as {name: string};
+  if (typeof name !== 'string' || !name.trim()) {
+    res.status(400).json({
+      error: 'Token name must be at least one character long.'
+    });
+    return;
+  }
+
+  if (name.length > MAX_TOKEN_NAME_LENGTH) {
+    res.status(413).json({
+      error: `Token name must be no more than ${MAX_TOKEN_NAME_LENGTH} characters.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the scopes in req.body are a nonempty list of read and write
+ */
+const isValidTokenScopes = (req: Request, res: Response, next: NextFunction) => {
+  const {scopes} = req.body as {scopes: unknown};
+  const validScopes = new Set(['read', 'write']);
+  if (!Array.isArray(scopes) || !scopes.length || !scopes.every(scope => validScopes.has(scope))) {
+    res.status(400).json({
+      error: 'Token scopes must be a nonempty list of read and write.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the token with id req.params.tokenId belongs to the current user
+ */
+const isTokenExists = async (req: Request, res: Response, next: NextFunction) => {
+  const token = Types.ObjectId.isValid(req.params.tokenId) ? await TokenCollection.findOne(req.session.userId, req.params.tokenId) : null;
+  if (!token) {
+    res.status(404).json({
+      error: `Token with id ${req.params.tokenId} does not exist.`
+    });
+    return;
+  }
+
+  next();
+};
+
+export {
+  authenticateBearerToken,
+  isNotUsingAccessToken,
+  isValidTokenName,
+  isValidTokenScopes,
+  isTokenExists
+};
@@ -0,0 +1,71 @@
+import type {Types} from 'mongoose';
+import {Schema, model} from 'mongoose';
+
+/**
+ * This file defines the properties stored in a Token, a personal access token
+ * that scripts can send as an Authorization: Bearer header instead of a
+ * session cookie. Only a hash of the token is stored.
+ * DO NOT implement operations here ---> use collection file
+ */
+
+export type TokenScope = 'read' | 'write';
+
+// Type definition for Token on the backend
+export type Token = {
+  _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
+  userId: Types.ObjectId;
+  name: string;
+  scopes: TokenScope[];
+  tokenHash: string;
+  prefix: string; // The start of the token, so users can tell their tokens apart
+  dateCreated: Date;
+  lastUsed?: Date;
+};
+
+// Mongoose schema definition for interfacing with a MongoDB table
+// Tokens stored in this table will have these fields, with the
+// type given by the type property, inside MongoDB
+const TokenSchema = new Schema<Token>({
+  // The user the token acts on behalf of
+  userId: {
+    // Use Types.ObjectId outside of the schema
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: 'User',
+    index: true
+  },
+  // The name the user gave the token
+  name: {
+    type: String,
+    required: true
+  },
+  // What the token may be used for: read for GET requests, write for the rest
+  scopes: {
+    type: [String],
+    enum: ['read', 'write'],
+    required: true
+  },
+  // The SHA-256 hash of the token
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // The first few characters of the token
+  prefix: {
+    type: String,
+    required: true
+  },
+  // The date the token was created
+  dateCreated: {
+    type: Date,
+    required: true
+  },
+  // The date the token was last used, if ever
+  lastUsed: {
+    type: Date
+  }
+});
+
+const TokenModel = model<Token>('Token', TokenSchema);
+export default TokenModel;
@@ -0,0 +1,72 @@
+import type {HydratedDocument} from 'mongoose';
+import {createHash, randomBytes} from 'crypto';
+import moment from 'moment';
+import type {Token, TokenScope} from '../token/model';
+
+// Update this if you add a property to the Token type!
+type TokenResponse = {
+  _id: string;
+  name: string;
+  scopes: TokenScope[];
+  prefix: string;
+  dateCreated: string;
+  lastUsed?: string;
+};
+
+// Tokens look like frt_ followed by 43 url-safe characters
+const TOKEN_LABEL = 'frt_';
+const TOKEN_BYTES = 32;
+const TOKEN_PREFIX_LENGTH = TOKEN_LABEL.length + 4;
+
+/**
+ * Generate a new random token
+ *
+ * @returns {string} - The token
+ */
+const generateToken = (): string => TOKEN_LABEL + randomBytes(TOKEN_BYTES).toString('base64url');
+
+/**
+ * Hash a token for storage. Tokens are random enough that a fast hash is safe.
+ *
+ * @param {string} token - The token
+ * @returns {string} - The hex encoded SHA-256 hash of the token
+ */
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Encode a date as an unambiguous string
+ *
+ * @param {Date} date - A date object
+ * @returns {string} - formatted date as string
+ */
+const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:mm:ss a');
+
+/**
+ * Transform a raw Token object from the database into an object
+ * with all the information needed by the frontend
+ *
+ * @param {HydratedDocument<Token>} token - A personal access token
+ * @returns {TokenResponse} - The token object formatted for the frontend
+ */
+const constructTokenResponse = (token: HydratedDocument<Token>): TokenResponse => {
+  const tokenCopy: Token = {
+    ...token.toObject({
+      versionKey: false // Cosmetics; prevents returning of __v property
+    })
+  };
+  return {
+    _id: tokenCopy._id.toString(),
+    name: tokenCopy.name,
+    scopes: tokenCopy.scopes,
+    prefix: tokenCopy.prefix,
+    dateCreated: formatDate(token.dateCreated),
+    lastUsed: token.lastUsed ? formatDate(token.lastUsed) : undefined
+  };
+};
+
+export {
+  TOKEN_PREFIX_LENGTH,
+  generateToken,
+  hashToken,
+  constructTokenResponse
+};
@@ -0,0 +1,136 @@
+import type {Request, Response, NextFunction} from 'express';
+import type {HydratedDocument} from 'mongoose';
+import type {User} from '../user/model';
+import UserCollection from '../user/collection';
+import RecoveryCodeCollection from '../recovery/collection';
+import ThrottleCollection from '../throttle/collection';
+import {isTotpCode, verifyCode} from './util';
+
+// How long someone has to enter their second factor after their password
+const PENDING_SIGN_IN_MS = 5 * 60 * 1000;
+
+// How many wrong codes someone can enter before they have to enter their password again
+const MAX_PENDING_ATTEMPTS = 5;
+
+/**
+ * Check a second factor, which is either a code from the user's authenticator
+ * app or one of their recovery codes. Recovery codes and the time steps of
+ * app codes are used up, so neither works twice.
+ */
+const checkSecondFactor = async (user: HydratedDocument<User>, code: string): Promise<boolean> => {
+  if (isTotpCode(code)) {
+    const step = verifyCode(user.twoFactorSecret, code);
+    return step !== undefined && UserCollection.useTwoFactorStep(user._id, step);
+  }
+
+  return RecoveryCodeCollection.useOne(user._id, code);
+};
+
+/**
+ * Checks if the current user has not turned on two-factor authentication
+ */
+const isTwoFactorDisabled = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUserId(req.session.userId);
+  if (user.twoFactorSecret) {
+    res.status(409).json({
+      error: 'Two-factor authentication is already on.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the current user has turned on two-factor authentication
+ */
+const isTwoFactorEnabled = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUserId(req.session.userId);
+  if (!user.twoFactorSecret) {
+    res.status(400).json({
+      error: 'Two-factor authentication is not on.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the code in req.body matches the secret the current user is
+ * setting up two-factor authentication with
+ */
+const isValidEnrollmentCode = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUserId(req.session.userId);
+  if (!user.twoFactorPendingSecret) {
+    res.status(400).json({
+      error: 'Start setting up two-factor authentication first.'
+    });
+    return;
+  }
+
+  const {code} = req.body as {code: string};
+  if (typeof code !== 'string' || verifyCode(user.twoFactorPendingSecret, code) === undefined) {
+    res.status(401).json({
+      error: 'Invalid code. Check that your device\'s clock is right and try the next code.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if someone entered the right password for an account with
+ * two-factor authentication in the last few minutes
+ */
+const isSignInPending = (req: Request, res: Response, next: NextFunction) => {
+  const pendingSince = req.session.pendingSince as number;
+  if (!req.session.pendingUserId || Date.now() - pendingSince > PENDING_SIGN_IN_MS) {
+    req.session.pendingUserId = undefined;
+    res.status(403).json({
+      error: 'Sign in with your username and password first.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the code in req.body is a valid second factor for the user
+ * signing in, or for the current user if they are signed in. Failed attempts
+ * count towards the login throttle, and too many of them cancel the pending
+ * sign in.
+ */
+const isValidSecondFactor = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUserId((req.session.userId ?? req.session.pendingUserId) as string);
+  const {code} = req.body as {code: string};
+  if (typeof code === 'string' && code.trim() && await checkSecondFactor(user, code)) {
+    next();
+    return;
+  }
+
+  await ThrottleCollection.recordAttempt('login', {ip: req.ip, username: user.username});
+  const attempts = ((req.session.pendingAttempts as number) ?? 0) + 1;
+  if (req.session.pendingUserId && attempts >= MAX_PENDING_ATTEMPTS) {
+    req.session.pendingUserId = undefined;
+    res.status(401).json({
+      error: 'Too many invalid codes. Sign in with your username and password again.'
+    });
+    return;
+  }
+
+  req.session.pendingAttempts = attempts;
+  res.status(401).json({
+    error: 'Invalid code.'
+  });
+};
+
+export {
+  isTwoFactorDisabled,
+  isTwoFactorEnabled,
+  isValidEnrollmentCode,
+  isSignInPending,
+  isValidSecondFactor
+};
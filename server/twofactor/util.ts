@@ -0,0 +1,118 @@
+import {createHmac, randomBytes, timingSafeEqual} from 'crypto';
+
+// RFC 6238 defaults, which every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20;
+
+// Codes from one step before or after the current one are accepted too, for clock drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+// Name shown for the account in authenticator apps
+const ISSUER = 'Fritter';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded base32, the format authenticator apps expect secrets in
+ *
+ * @param {Buffer} bytes - The bytes to encode
+ * @returns {string} - The base32 string
+ */
+const encodeBase32 = (bytes: Buffer): string => {
+  const bits = [...bytes].map(byte => byte.toString(2).padStart(8, '0')).join('');
+  const chunks = bits.match(/.{1,5}/g) ?? [];
+  return chunks.map(chunk => BASE32_ALPHABET[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+};
+
+/**
+ * Decode an unpadded base32 string
+ *
+ * @param {string} text - The base32 string
+ * @returns {Buffer} - The decoded bytes
+ */
+const decodeBase32 = (text: string): Buffer => {
+  const bits = [...text.toUpperCase()].map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0')).join('');
+  const bytes = bits.match(/.{8}/g) ?? [];
+  return Buffer.from(bytes.map(byte => parseInt(byte, 2)));
+};
+
+/**
+ * Generate a new random TOTP secret
+ *
+ * @returns {string} - The base32-encoded secret
+ */
+const generateSecret = (): string => encodeBase32(randomBytes(SECRET_BYTES));
+
+/**
+ * Get the number of the TOTP time step a moment falls in
+ *
+ * @param {number} time - Milliseconds since the epoch; defaults to now
+ * @returns {number} - The time step
+ */
+const getStep = (time: number = Date.now()): number => Math.floor(time / 1000 / STEP_SECONDS);
+
+/**
+ * Compute the code for a time step, as described in RFC 4226 and RFC 6238
+ *
+ * @param {string} secret - The base32-encoded secret
+ * @param {number} step - The time step
+ * @returns {string} - The code, padded with zeros
+ */
+const generateCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / (2 ** 32)), 0);
+  counter.writeUInt32BE(step % (2 ** 32), 4);
+  const hmac = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+  // Dynamic truncation: the low 4 bits of the last byte pick where to read 31 bits from
+  const offset = hmac[hmac.length - 1] % 16;
+  const binary = hmac.readUInt32BE(offset) % (2 ** 31);
+  return (binary % (10 ** DIGITS)).toString().padStart(DIGITS, '0');
+};
+
+/**
+ * Check a code against a secret, allowing for some clock drift
+ *
+ * @param {string} secret - The base32-encoded secret
+ * @param {string} code - The code the user typed in
+ * @returns {number | undefined} - The time step the code belongs to, if it is valid
+ */
+const verifyCode = (secret: string, code: string): number | undefined => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) {
+    return undefined;
+  }
+
+  const now = getStep();
+  const steps = Array.from({length: (2 * ALLOWED_DRIFT_STEPS) + 1}, (_, i) => now - ALLOWED_DRIFT_STEPS + i);
+  return steps.find(step => timingSafeEqual(Buffer.from(generateCode(secret, step)), Buffer.from(normalized)));
+};
+
+/**
+ * Check whether what the user typed in looks like a TOTP code rather than a recovery code
+ *
+ * @param {string} code - What the user typed in
+ * @returns {boolean} - true if it is all digits
+ */
+const isTotpCode = (code: string): boolean => /^\d+$/.test(code.replace(/\s/g, ''));
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from the QR code
+ *
+ * @param {string} username - The username of the enrolling user
+ * @param {string} secret - The base32-encoded secret
+ * @returns {string} - The provisioning URI
+ */
+const buildProvisioningUri = (username: string, secret: string): string => {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${ISSUER}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+};
+
+export {
+  generateSecret,
+  generateCode,
+  getStep,
+  verifyCode,
+  isTotpCode,
+  buildProvisioningUri
+};
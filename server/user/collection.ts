@@ -1,7 +1,20 @@
 import type {HydratedDocument, Types} from 'mongoose';
-import type {User} from './model';
+import {customAlphabet} from 'nanoid';
+import type {Role, User} from './model';
 import UserModel from './model';
 import FreetModel from '../freet/model';
+import AliasCollection from '../alias/collection';
+import {hashPassword, isPasswordHashed, verifyPassword} from './util';
+
+// Pseudonyms look like Nighthawk_3f9a0c1e and are assigned once per account
+const generatePseudonym = customAlphabet('0123456789abcdef', 8);
+const PSEUDONYM_PREFIX = 'Nighthawk_';
+
+// Before pseudonyms, NighthawkMode renamed the account itself to this
+const LEGACY_ANONYMOUS_USERNAME = 'Anonymous';
+
+// Deleted accounts can be restored by signing in for this long before they are purged
+const DELETION_GRACE_PERIOD_DAYS = 30;
 
 /**
  * This file contains a class with functionality to interact with users stored
@@ -22,10 +35,10 @@ class UserCollection {
   static async addOne(username: string, password: string): Promise<HydratedDocument<User>> {
     const dateJoined = new Date();
     const seen:Array<any> = [];
-    const following:Array<any> = [];
-    const anonName:string = 'Anonymous'
-    let reputation = 0;
-    const user = new UserModel({username, password, dateJoined, seen, following, anonName, reputation});
+    const anonName = await this.createPseudonym();
+    const nighthawkMode = false;
+    const hashedPassword = await hashPassword(password);
+    const user = new UserModel({username, password: hashedPassword, dateJoined, seen, anonName, nighthawkMode});
     await user.save(); // Saves user to MongoDB
     return user;
   }
@@ -50,24 +63,57 @@ class UserCollection {
     return UserModel.findOne({username: new RegExp(`^${username.trim()}$`, 'i')});
   }
 
-
   /**
-   * Modify a user's reputation.
+   * Find a user by username (case insensitive), falling back to whoever had
+   * that username most recently if nobody has it now.
    *
-   * @param {string} userId - The userId of the user to find
-   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the updated reputation.
+   * @param {string} username - The current or old username of the user to find
+   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user, if any
    */
-   static async updateUserReputation(username: string, repChange: number): Promise<HydratedDocument<User>> {
+  static async findOneByUsernameOrAlias(username: string): Promise<HydratedDocument<User>> {
     const user = await this.findOneByUsername(username);
-    if (user && typeof(repChange) == 'number')
-    {
-      user.reputation += repChange;
-      await user.save();
+    if (user) {
       return user;
     }
-    return user;
+
+    const alias = await AliasCollection.findOneByUsername(username);
+    return alias ? this.findOneByUserId(alias.userId) : null;
   }
 
+  /**
+   * Get every username a user is known by: their current one first, then
+   * the ones they had before
+   *
+   * @param {User} user - The user
+   * @return {Promise<string[]>} - The user's usernames
+   */
+  static async findAllUsernames(user: User): Promise<string[]> {
+    const aliases = await AliasCollection.findAllByUserId(user._id);
+    return [user.username, ...aliases.map(alias => alias.username)];
+  }
+
+  /**
+   * Find a user by their anonymous pseudonym (case insensitive).
+   *
+   * @param {string} anonName - The pseudonym of the user to find
+   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the given pseudonym, if any
+   */
+  static async findOneByAnonName(anonName: string): Promise<HydratedDocument<User>> {
+    return UserModel.findOne({anonName: new RegExp(`^${anonName.trim()}$`, 'i')});
+  }
+
+  /**
+   * Generate a pseudonym that no other user has as their username or pseudonym.
+   *
+   * @return {Promise<string>} - The new pseudonym
+   */
+  static async createPseudonym(): Promise<string> {
+    const anonName = PSEUDONYM_PREFIX + generatePseudonym();
+    const taken = await this.findOneByUsername(anonName) ?? await this.findOneByAnonName(anonName);
+    return taken ? this.createPseudonym() : anonName;
+  }
+
+
   /**
    * Add a freet to the seen list.
    *
@@ -111,35 +157,68 @@ class UserCollection {
   }
 
   /**
-   * Add a freeter to the user's following list.
-   * 
-   * @param {string} username - The username of the user
-   * @param {string} toFollow - The username of the user to add to the following list
-   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the given username, if any
+   * Find a user by username (case insensitive) and verify their password.
+   * Accounts still storing a plaintext password are re-hashed on their
+   * first successful sign in.
+   *
+   * @param {string} username - The username of the user to find
+   * @param {string} password - The password of the user to find
+   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the given username, if the password matches
    */
-   static async addToFollowList(username: string, toFollow: string): Promise<HydratedDocument<User>> {
+  static async findOneByUsernameAndPassword(username: string, password: string): Promise<HydratedDocument<User>> {
+    const usernameRegex = new RegExp(`^${username.trim()}$`, 'i');
+    // Accounts left in the old NighthawkMode keep their real username in anonName
+    const user = await UserModel.findOne({
+      $or: [
+        {username: usernameRegex},
+        {username: LEGACY_ANONYMOUS_USERNAME, anonName: usernameRegex}
+      ]
+    });
+    if (!user || !(await verifyPassword(password, user.password))) {
+      return null;
+    }
 
-    const user =  await UserModel.findOne({_id: username});
-    const follow =  await UserModel.findOne({username: toFollow});
-    if (user.following.includes(toFollow) == false && follow != null) user.following.push(toFollow);
+    if (!isPasswordHashed(user.password)) {
+      user.password = await hashPassword(password);
+    }
+
+    if (user.username === LEGACY_ANONYMOUS_USERNAME) {
+      user.username = user.anonName;
+      user.nighthawkMode = true;
+    }
+
+    if (!user.anonName.startsWith(PSEUDONYM_PREFIX)) {
+      user.anonName = await this.createPseudonym();
+    }
+
+    if (user.isModified()) {
+      await user.save();
+    }
 
-    await user.save();
     return user;
   }
 
   /**
-   * Remove from the user's following list.
-   * 
-   * @param {string} username - The username of the user
-   * @param {string} toRemove - The username of the user to remove from the following list
-   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the given username, if any
+   * Update user's information
+   *
+   * @param {string} userId - The userId of the user to update
+   * @param {Object} userDetails - An object with the user's updated credentials
+   * @return {Promise<HydratedDocument<User>>} - The updated user
    */
-   static async removeFromFollowList(username: string, toRemove: string): Promise<HydratedDocument<User>> {
-    const user =  await UserModel.findOne({_id: username});
-    if (user.following.includes(toRemove)) 
-    {
-      const ix = user.following.indexOf(toRemove);
-      user.following.splice(ix, 1);
+  static async updateOne(userId: Types.ObjectId | string, userDetails: any): Promise<HydratedDocument<User>> {
+    const user = await UserModel.findOne({_id: userId});
+    if (userDetails.password) {
+      user.password = await hashPassword(userDetails.password as string);
+    }
+
+    if (userDetails.username) {
+      const username = userDetails.username as string;
+      // Keep the old username around so old mentions and links still find the user
+      if (username.toLowerCase() !== user.username.toLowerCase()) {
+        await AliasCollection.addOne(user._id, user.username);
+      }
+
+      user.username = username;
     }
 
     await user.save();
@@ -147,75 +226,195 @@ class UserCollection {
   }
 
   /**
-   * Find a user by username (case insensitive).
+   * Toggle user's NighthawkMode, i.e. whether their new freets and comments
+   * are anonymous unless they say otherwise. The username is left untouched.
    *
-   * @param {string} username - The username of the user to find
-   * @param {string} password - The password of the user to find
-   * @return {Promise<HydratedDocument<User>> | Promise<null>} - The user with the given username, if any
+   * @param {string} userId - The userId of the user to update
+   * @return {Promise<HydratedDocument<User>>} - The updated user
    */
-  static async findOneByUsernameAndPassword(username: string, password: string): Promise<HydratedDocument<User>> {
-    return UserModel.findOne({
-      username: new RegExp(`^${username.trim()}$`, 'i'),
-      password
-    });
+  static async updateAnon(userId: Types.ObjectId | string): Promise<HydratedDocument<User>> {
+    const user = await UserModel.findOne({_id: userId});
+    user.nighthawkMode = !user.nighthawkMode;
+    await user.save();
+    return user;
   }
 
   /**
-   * Update user's information
+   * Toggle whether a user's account is private, i.e. whether people have to
+   * ask to follow them and only approved followers see their freets
    *
    * @param {string} userId - The userId of the user to update
-   * @param {Object} userDetails - An object with the user's updated credentials
    * @return {Promise<HydratedDocument<User>>} - The updated user
    */
-  static async updateOne(userId: Types.ObjectId | string, userDetails: any): Promise<HydratedDocument<User>> {
+  static async updatePrivacy(userId: Types.ObjectId | string): Promise<HydratedDocument<User>> {
     const user = await UserModel.findOne({_id: userId});
-    if (userDetails.password) {
-      user.password = userDetails.password as string;
-    }
+    user.private = !user.private;
+    await user.save();
+    return user;
+  }
 
-    if (userDetails.username) {
-      user.username = userDetails.username as string;
-    }
+  /**
+   * Start turning on two-factor authentication for a user. It only takes
+   * effect once the user confirms the secret with a code.
+   *
+   * @param {string} userId - The userId of the user to update
+   * @param {string} secret - The new base32 TOTP secret
+   * @return {Promise<HydratedDocument<User>>} - The updated user
+   */
+  static async updatePendingTwoFactorSecret(userId: Types.ObjectId | string, secret: string): Promise<HydratedDocument<User>> {
+    return UserModel.findOneAndUpdate({_id: userId}, {$set: {twoFactorPendingSecret: secret}}, {new: true});
+  }
 
-    if (userDetails.anonOn) {
-      user.anonName = userDetails.username as string;
-      user.username = 'Anonymous';
-    }
+  /**
+   * Turn on two-factor authentication with the secret the user confirmed
+   *
+   * @param {string} userId - The userId of the user to update
+   * @param {number} step - The time step of the code the user confirmed it with
+   * @return {Promise<HydratedDocument<User>>} - The updated user
+   */
+  static async enableTwoFactor(userId: Types.ObjectId | string, step: number): Promise<HydratedDocument<User>> {
+    const user = await UserModel.findOne({_id: userId});
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastStep = step;
+    await user.save();
+    return user;
+  }
 
-    if (userDetails.anonOff) {
-      user.username = userDetails.anonName as string;
-      user.anonName = 'Anonymous';
-    }
+  /**
+   * Turn off two-factor authentication
+   *
+   * @param {string} userId - The userId of the user to update
+   * @return {Promise<HydratedDocument<User>>} - The updated user
+   */
+  static async disableTwoFactor(userId: Types.ObjectId | string): Promise<HydratedDocument<User>> {
+    return UserModel.findOneAndUpdate({_id: userId}, {$unset: {twoFactorSecret: 1, twoFactorPendingSecret: 1, twoFactorLastStep: 1}}, {new: true});
+  }
+
+  /**
+   * Use up the time step of a two-factor code, so the same code can't be used again
+   *
+   * @param {string} userId - The userId of the user
+   * @param {number} step - The time step of the code
+   * @return {Promise<boolean>} - true if no code from this or a later step was used before
+   */
+  static async useTwoFactorStep(userId: Types.ObjectId | string, step: number): Promise<boolean> {
+    const result = await UserModel.updateOne(
+      {_id: userId, $or: [{twoFactorLastStep: {$lt: step}}, {twoFactorLastStep: {$exists: false}}]},
+      {$set: {twoFactorLastStep: step}}
+    );
+    return result.modifiedCount > 0;
+  }
 
+  /**
+   * Change a user's role
+   *
+   * @param {string} userId - The userId of the user to update
+   * @param {Role} role - The new role
+   * @return {Promise<HydratedDocument<User>>} - The updated user
+   */
+  static async updateRole(userId: Types.ObjectId | string, role: Role): Promise<HydratedDocument<User>> {
+    const user = await UserModel.findOne({_id: userId});
+    user.role = role;
     await user.save();
     return user;
   }
 
   /**
-   * Toggle user's anonymous mode
+   * Suspend a user until the given date, or lift their suspension
    *
    * @param {string} userId - The userId of the user to update
-   * @param {Object} userDetails - An object with the user's updated credentials
+   * @param {Date} suspendedUntil - The end of the suspension, or undefined to lift it
    * @return {Promise<HydratedDocument<User>>} - The updated user
    */
-   static async updateAnon(userId: Types.ObjectId | string): Promise<HydratedDocument<User>> {
+  static async updateSuspension(userId: Types.ObjectId | string, suspendedUntil?: Date): Promise<HydratedDocument<User>> {
     const user = await UserModel.findOne({_id: userId});
+    user.suspendedUntil = suspendedUntil;
+    await user.save();
+    return user;
+  }
 
-    if (user.anonName == 'Anonymous')
-    {
-      user.anonName = user.username as string;
-      user.username = 'Anonymous';      
-    }
+  /**
+   * Schedule a user's account for deletion. Until the grace period is over
+   * the account is hidden from everyone else and signing in restores it.
+   *
+   * @param {string} userId - The userId of the user to delete
+   * @return {Promise<HydratedDocument<User>>} - The updated user
+   */
+  static async softDeleteOne(userId: Types.ObjectId | string): Promise<HydratedDocument<User>> {
+    const user = await UserModel.findOne({_id: userId});
+    user.dateDeleted = new Date();
+    await user.save();
+    return user;
+  }
 
-    else
-    {
-      user.username = user.anonName as string;
-      user.anonName = 'Anonymous';
-    }
+  /**
+   * Cancel the scheduled deletion of a user's account
+   *
+   * @param {string} userId - The userId of the user to restore
+   * @return {Promise<HydratedDocument<User>>} - The updated user
+   */
+  static async restoreOne(userId: Types.ObjectId | string): Promise<HydratedDocument<User>> {
+    const user = await UserModel.findOne({_id: userId});
+    user.dateDeleted = undefined;
     await user.save();
     return user;
   }
 
+  /**
+   * Get the date a deleted account will be purged for good
+   *
+   * @param {User} user - A user whose account is scheduled for deletion
+   * @return {Date} - The end of the user's grace period
+   */
+  static getPurgeDate(user: User): Date {
+    const purgeDate = new Date(user.dateDeleted);
+    purgeDate.setDate(purgeDate.getDate() + DELETION_GRACE_PERIOD_DAYS);
+    return purgeDate;
+  }
+
+  /**
+   * Get every user whose deletion grace period is over
+   *
+   * @return {Promise<HydratedDocument<User>[]>} - The users to purge
+   */
+  static async findAllDueForPurge(): Promise<Array<HydratedDocument<User>>> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - DELETION_GRACE_PERIOD_DAYS);
+    return UserModel.find({dateDeleted: {$lte: cutoff}});
+  }
+
+  /**
+   * Get the ids of users whose accounts are scheduled for deletion
+   *
+   * @return {Promise<Types.ObjectId[]>} - The ids of the deleted users
+   */
+  static async findDeletedIds(): Promise<Types.ObjectId[]> {
+    const users = await UserModel.find({dateDeleted: {$exists: true}}, '_id');
+    return users.map(user => user._id);
+  }
+
+  /**
+   * Get the ids of every private account
+   *
+   * @return {Promise<Types.ObjectId[]>} - The ids of the private accounts
+   */
+  static async findPrivateIds(): Promise<Types.ObjectId[]> {
+    const users = await UserModel.find({private: true}, '_id');
+    return users.map(user => user._id);
+  }
+
+  /**
+   * Remove a purged user's freets from other users' seen lists
+   *
+   * @param {Types.ObjectId[]} freetIds - The ids of the purged user's freets
+   */
+  static async removeSeenFreets(freetIds: Types.ObjectId[]): Promise<void> {
+    // Seen lists hold whatever the client sent, so match both ids and strings
+    const seen = [...freetIds, ...freetIds.map(freetId => freetId.toString())];
+    await UserModel.updateMany({seen: {$in: seen}}, {$pull: {seen: {$in: seen}}});
+  }
+
   /**
    * Delete a user from the collection.
    *
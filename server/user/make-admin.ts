@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import UserCollection from './collection';
+
+/**
+ * Makes an existing user an admin. Run it with `npm run make-admin -- username`
+ * to give a new deployment its first admin, who can then hand out roles from
+ * the moderation console.
+ */
+dotenv.config({});
+
+const mongoConnectionUrl = process.env.MONGO_SRV;
+if (!mongoConnectionUrl) {
+  throw new Error('Please add the MongoDB connection SRV as \'MONGO_SRV\'');
+}
+
+const username = process.argv[2];
+if (!username) {
+  throw new Error('Please give the username of the user to make an admin');
+}
+
+mongoose
+  .connect(mongoConnectionUrl)
+  .then(async () => {
+    const user = await UserCollection.findOneByUsername(username);
+    if (!user) {
+      throw new Error(`No user has the username ${username}`);
+    }
+
+    await UserCollection.updateRole(user._id, 'admin');
+    console.log(`${user.username} is now an admin`);
+    await mongoose.disconnect();
+  })
+  .catch(async (error: Error) => {
+    console.error(`Could not make ${username} an admin: ${error.message}`);
+    process.exitCode = 1;
+    await mongoose.disconnect();
+  });
@@ -1,6 +1,9 @@
 import type {Request, Response, NextFunction} from 'express';
 import {Types} from 'mongoose';
 import UserCollection from '../user/collection';
+import ThrottleCollection from '../throttle/collection';
+import type {Role} from './model';
+import {isSuspended} from './util';
 
 /**
  * Checks if the current session user (if any) still exists in the database, for instance,
@@ -11,6 +14,13 @@ const isCurrentSessionUserExists = async (req: Request, res: Response, next: Nex
   if (req.session.userId) {
     const user = await UserCollection.findOneByUserId(req.session.userId);
 
+    // Other sessions of an account scheduled for deletion or suspended are signed out
+    if (user?.dateDeleted || (user && isSuspended(user))) {
+      req.session.userId = undefined;
+      next();
+      return;
+    }
+
     if (!user) {
       req.session.userId = undefined;
       res.status(500).json({
@@ -60,23 +70,8 @@ const isValidPassword = (req: Request, res: Response, next: NextFunction) => {
 };
 
 /**
- * Checks if a reputation is a valid number.
- */
- const isValidNumber = (req: Request, res: Response, next: NextFunction) => {
-  if (isNaN(req.body.repChange) != false) {
-    res.status(404).json({
-      error: {
-        repChange: 'repChange must be a valid number.'
-      }
-    });
-    return;
-  }
-
-  next();
-};
-
-/**
- * Checks if a user with username and password in req.body exists
+ * Checks if a user with username and password in req.body exists. Failed
+ * attempts count towards the login throttle.
  */
 const isAccountExists = async (req: Request, res: Response, next: NextFunction) => {
   const {username, password} = req.body as {username: string; password: string};
@@ -93,10 +88,51 @@ const isAccountExists = async (req: Request, res: Response, next: NextFunction)
   if (user) {
     next();
   } else {
+    await ThrottleCollection.recordAttempt('login', {ip: req.ip, username: username.trim()});
     res.status(401).json({error: 'Invalid user login credentials provided.'});
   }
 };
 
+/**
+ * Checks if the account with the username in req.body is not suspended
+ */
+const isAccountNotSuspended = async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUsername(req.body.username);
+  if (user && isSuspended(user)) {
+    res.status(403).json({
+      error: `Your account is suspended until ${user.suspendedUntil.toDateString()}.`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Makes a middleware that checks if the current user has one of the given roles
+ */
+const hasRole = (roles: Role[]) => async (req: Request, res: Response, next: NextFunction) => {
+  const user = await UserCollection.findOneByUserId(req.session.userId);
+  if (!user || !roles.includes(user.role)) {
+    res.status(403).json({
+      error: 'You do not have permission to complete this action.'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Checks if the current user is a moderator or an admin
+ */
+const isModerator = hasRole(['moderator', 'admin']);
+
+/**
+ * Checks if the current user is an admin
+ */
+const isAdmin = hasRole(['admin']);
+
 // THIS FUNCTION DOESN'T WORK RIGHT NOW. FIX LATER. maybe change to be negation of isUsernameNotAlreadyInUse?
 /**
  * Checks if a user with username and password in req.body exists
@@ -121,13 +157,25 @@ const isAccountExists = async (req: Request, res: Response, next: NextFunction)
 };
 
 /**
- * Checks if a username in req.body is already in use
+ * Checks if a username in req.body is already in use, now or as someone's old
+ * username, since old profile links and mentions still lead to whoever had it
  */
 const isUsernameNotAlreadyInUse = async (req: Request, res: Response, next: NextFunction) => {
-  const user = await UserCollection.findOneByUsername(req.body.username);
+  const user = await UserCollection.findOneByUsernameOrAlias(req.body.username);
+
+  // Usernames may not impersonate anyone's anonymous pseudonym
+  if (await UserCollection.findOneByAnonName(req.body.username)) {
+    res.status(409).json({
+      error: {
+        username: 'An account with this username already exists.'
+      }
+    });
+    return;
+  }
 
   // If the current session user wants to change their username to one which matches
-  // the current one irrespective of the case, we should allow them to do so
+  // the current one irrespective of the case, or to one they had before, we should
+  // allow them to do so
   if (!user || (user?._id.toString() === req.session.userId)) {
     next();
     return;
@@ -183,7 +231,7 @@ const isAuthorExists = async (req: Request, res: Response, next: NextFunction) =
   }
 
   const user = await UserCollection.findOneByUsername(req.query.author as string);
-  if (!user) {
+  if (!user || user.dateDeleted) {
     res.status(404).json({
       error: `A user with username ${req.query.author as string} does not exist.`
     });
@@ -193,15 +241,34 @@ const isAuthorExists = async (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
+/**
+ * Checks if a user with username in req.params exists
+ */
+const isUserExists = async (req: Request, res: Response, next: NextFunction) => {
+  const usernameRegex = /^\w+$/i;
+  const user = usernameRegex.test(req.params.username) ? await UserCollection.findOneByUsernameOrAlias(req.params.username) : null;
+  if (!user || user.dateDeleted) {
+    res.status(404).json({
+      error: `A user with username ${req.params.username} does not exist.`
+    });
+    return;
+  }
+
+  next();
+};
+
 export {
   isCurrentSessionUserExists,
   isUserLoggedIn,
   isUserLoggedOut,
   isUsernameNotAlreadyInUse,
   isAccountExists,
+  isAccountNotSuspended,
+  isModerator,
+  isAdmin,
   isAuthorExists,
+  isUserExists,
   isValidUsername,
   isValidPassword,
-  doesUserExist,
-  isValidNumber
+  doesUserExist
 };
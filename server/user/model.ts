@@ -6,16 +6,24 @@ import {Schema, model} from 'mongoose';
  * DO NOT implement operations here ---> use collection file
  */
 
+export type Role = 'user' | 'moderator' | 'admin';
+
 // Type definition for User on the backend
 export type User = {
   _id: Types.ObjectId; // MongoDB assigns each object this ID on creation
   username: string;
   password: string;
   dateJoined: Date;
-  following: Array<any>; // change Any to the proper type later
   seen: Array<any>; // change Any to the proper type later
   anonName: string;
-  reputation: number;
+  nighthawkMode: boolean;
+  private: boolean;
+  dateDeleted?: Date; // Set while the account waits out its deletion grace period
+  role: Role;
+  suspendedUntil?: Date;
+  twoFactorSecret?: string; // Set once two-factor authentication is turned on
+  twoFactorPendingSecret?: string; // Set while the user is turning it on
+  twoFactorLastStep?: number;
 };
 
 // Mongoose schema definition for interfacing with a MongoDB table
@@ -37,24 +45,54 @@ const UserSchema = new Schema({
     type: Date,
     required: true
   },
-  // The user's following list
-  following: {
-    type: Array,
-    required: true
-  },
   // The user's seen posts
   seen: {
     type: Array,
     required: true
   },
-  // anonymous name
+  // The stable pseudonym shown on the user's anonymous freets and comments
   anonName: {
     type: String,
     required: true
   },
-  reputation: {
-    type: Number,
-    required: true
+  // Whether the user's new posts are anonymous by default
+  nighthawkMode: {
+    type: Boolean,
+    default: false
+  },
+  // Whether only followers the user approved can see their freets
+  private: {
+    type: Boolean,
+    default: false
+  },
+  // When the user asked to delete their account, if they have
+  dateDeleted: {
+    type: Date,
+    index: true
+  },
+  // What the user may do: moderators and admins can moderate content and
+  // suspend users, and only admins can change roles
+  role: {
+    type: String,
+    enum: ['user', 'moderator', 'admin'],
+    default: 'user'
+  },
+  // The user can't sign in until this date, if they are suspended
+  suspendedUntil: {
+    type: Date
+  },
+  // The base32 TOTP secret shared with the user's authenticator app
+  twoFactorSecret: {
+    type: String
+  },
+  // The secret shown while the user sets up two-factor authentication,
+  // until they confirm it with a first code
+  twoFactorPendingSecret: {
+    type: String
+  },
+  // The time step of the last accepted code, so a code can't be used twice
+  twoFactorLastStep: {
+    type: Number
   }
 });
 
@@ -1,41 +1,217 @@
 import type {Request, Response} from 'express';
+import type {HydratedDocument} from 'mongoose';
 import express from 'express';
+import QRCode from 'qrcode';
+import type {User} from './model';
 import FreetCollection from '../freet/collection';
+import CommentCollection from '../comments/collection';
 import UserCollection from './collection';
+import FollowCollection from '../follow/collection';
+import ReputationCollection from '../reputation/collection';
+import BlockCollection from '../block/collection';
+import SessionCollection from '../session/collection';
+import ThrottleCollection from '../throttle/collection';
+import TokenCollection from '../token/collection';
+import RecoveryCodeCollection from '../recovery/collection';
 import * as userValidator from '../user/middleware';
+import * as followValidator from '../follow/middleware';
+import * as blockValidator from '../block/middleware';
+import * as sessionValidator from '../session/middleware';
+import * as throttleValidator from '../throttle/middleware';
+import * as tokenValidator from '../token/middleware';
+import * as recoveryValidator from '../recovery/middleware';
+import * as twoFactorValidator from '../twofactor/middleware';
 import * as util from './util';
+import * as followUtil from '../follow/util';
+import * as reputationUtil from '../reputation/util';
+import * as blockUtil from '../block/util';
+import * as sessionUtil from '../session/util';
+import * as tokenUtil from '../token/util';
+import * as twoFactorUtil from '../twofactor/util';
+import * as feedUtil from '../feed/util';
 
 const router = express.Router();
 
 /**
- * Sign in user.
+ * Finish signing in a user whose password (and second factor, if they turned
+ * it on) was verified. Signing in to an account scheduled for deletion restores it.
+ */
+const completeSignIn = async (req: Request, res: Response, verifiedUser: HydratedDocument<User>): Promise<void> => {
+  const restored = Boolean(verifiedUser.dateDeleted);
+  const user = restored ? await UserCollection.restoreOne(verifiedUser._id) : verifiedUser;
+  await ThrottleCollection.reset('login', 'username', user.username);
+  req.session.userId = user._id.toString();
+  await SessionCollection.touch(req.sessionID, user._id, req.get('User-Agent'));
+  res.status(201).json({
+    message: restored ? 'Welcome back! Your account is no longer scheduled for deletion.' : 'You have logged in successfully',
+    user: util.constructUserResponse(user)
+  });
+};
+
+/**
+ * Sign in user. Signing in to an account scheduled for deletion restores it.
+ * If the user turned on two-factor authentication, they aren't signed in yet:
+ * they have to send a code to POST /api/users/session/2fa within 5 minutes.
  *
  * @name POST /api/users/session
  *
  * @param {string} username - The user's username
  * @param {string} password - The user's password
  * @return {UserResponse} - An object with user's details
- * @throws {403} - If user is already signed in
+ * @return {{twoFactorRequired: true}} - With status 202, if a code is needed to finish signing in
+ * @throws {403} - If user is already signed in, or the account is suspended
  * @throws {400} - If username or password is  not in the correct format,
  *                 or missing in the req
  * @throws {401} - If the user login credentials are invalid
+ * @throws {429} - If there were too many failed attempts from this IP address or for this username
  *
  */
 router.post(
   '/session',
   [
     userValidator.isUserLoggedOut,
+    throttleValidator.isLoginNotThrottled,
     userValidator.isValidUsername,
     userValidator.isValidPassword,
-    userValidator.isAccountExists
+    userValidator.isAccountExists,
+    userValidator.isAccountNotSuspended
   ],
   async (req: Request, res: Response) => {
-    const user = await UserCollection.findOneByUsernameAndPassword(
-      req.body.username, req.body.password
-    );
-    req.session.userId = user._id.toString();
+    // The password was already verified (and migrated if needed) in isAccountExists
+    const user = await UserCollection.findOneByUsername(req.body.username);
+    if (user.twoFactorSecret) {
+      req.session.pendingUserId = user._id.toString();
+      req.session.pendingSince = Date.now();
+      req.session.pendingAttempts = 0;
+      res.status(202).json({
+        message: 'Enter the code from your authenticator app, or one of your recovery codes.',
+        twoFactorRequired: true
+      });
+      return;
+    }
+
+    await completeSignIn(req, res, user);
+  }
+);
+
+/**
+ * Finish signing in to an account with two-factor authentication.
+ *
+ * @name POST /api/users/session/2fa
+ *
+ * @param {string} code - A code from the user's authenticator app, or one of their recovery codes
+ * @return {UserResponse} - An object with user's details
+ * @throws {403} - If user is already signed in, or hasn't entered their password in the last 5 minutes
+ * @throws {401} - If the code is invalid
+ * @throws {429} - If there were too many failed attempts from this IP address
+ */
+router.post(
+  '/session/2fa',
+  [
+    userValidator.isUserLoggedOut,
+    throttleValidator.isLoginNotThrottled,
+    twoFactorValidator.isSignInPending,
+    twoFactorValidator.isValidSecondFactor
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUserId(req.session.pendingUserId);
+    req.session.pendingUserId = undefined;
+    await completeSignIn(req, res, user);
+  }
+);
+
+/**
+ * Start turning on two-factor authentication. Scan the QR code (or enter the
+ * secret) in an authenticator app, then confirm with PUT /api/users/2fa.
+ *
+ * @name POST /api/users/2fa
+ *
+ * @return {{uri: string, qrCode: string, secret: string}} - The provisioning URI, a
+ *                      QR code of it as a data URL, and the secret itself
+ * @throws {403} - If the user is not logged in or is using an access token
+ * @throws {409} - If two-factor authentication is already on
+ */
+router.post(
+  '/2fa',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
+    twoFactorValidator.isTwoFactorDisabled
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const secret = twoFactorUtil.generateSecret();
+    const user = await UserCollection.updatePendingTwoFactorSecret(userId, secret);
+    const uri = twoFactorUtil.buildProvisioningUri(user.username, secret);
     res.status(201).json({
-      message: 'You have logged in successfully',
+      uri,
+      qrCode: await QRCode.toDataURL(uri),
+      secret
+    });
+  }
+);
+
+/**
+ * Finish turning on two-factor authentication by entering a first code from
+ * the authenticator app. Users without recovery codes get a new set, since
+ * they are the only way in if the device is lost.
+ *
+ * @name PUT /api/users/2fa
+ *
+ * @param {string} code - The code shown in the authenticator app
+ * @return {{user: UserResponse, recoveryCodes?: string[]}} - The updated user, and new
+ *                      recovery codes if they had none left
+ * @throws {403} - If the user is not logged in or is using an access token
+ * @throws {409} - If two-factor authentication is already on
+ * @throws {400} - If the user hasn't started turning it on
+ * @throws {401} - If the code is invalid
+ */
+router.put(
+  '/2fa',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
+    twoFactorValidator.isTwoFactorDisabled,
+    twoFactorValidator.isValidEnrollmentCode
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const pendingUser = await UserCollection.findOneByUserId(userId);
+    const step = twoFactorUtil.verifyCode(pendingUser.twoFactorPendingSecret, req.body.code as string);
+    const user = await UserCollection.enableTwoFactor(userId, step);
+    const hasRecoveryCodes = await RecoveryCodeCollection.countRemaining(userId) > 0;
+    res.status(200).json({
+      message: 'Two-factor authentication is on.',
+      user: util.constructUserResponse(user),
+      recoveryCodes: hasRecoveryCodes ? undefined : await RecoveryCodeCollection.replaceAll(userId)
+    });
+  }
+);
+
+/**
+ * Turn off two-factor authentication.
+ *
+ * @name DELETE /api/users/2fa
+ *
+ * @param {string} code - A code from the authenticator app, or one of the user's recovery codes
+ * @return {UserResponse} - The updated user
+ * @throws {403} - If the user is not logged in or is using an access token
+ * @throws {400} - If two-factor authentication is not on
+ * @throws {401} - If the code is invalid
+ */
+router.delete(
+  '/2fa',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
+    twoFactorValidator.isTwoFactorEnabled,
+    twoFactorValidator.isValidSecondFactor
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const user = await UserCollection.disableTwoFactor(userId);
+    res.status(200).json({
+      message: 'Two-factor authentication is off.',
       user: util.constructUserResponse(user)
     });
   }
@@ -46,6 +222,7 @@ router.post(
  *
  * @name DELETE /api/users/session
  *
+ * @param {boolean} everywhere - Whether to also sign out every other session of the user
  * @return - None
  * @throws {403} - If user is not logged in
  *
@@ -53,19 +230,262 @@ router.post(
 router.delete(
   '/session',
   [
-    userValidator.isUserLoggedIn
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
   ],
   async (req: Request, res: Response) => {
-    const user = await UserCollection.findOneByUserId(req.session.userId);
-    if (user.username == 'Anonymous')
-    {
-      user.username = user.anonName;
-      user.anonName = 'Anonymous';
-      await user.save();
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    if (req.body.everywhere === true) {
+      await SessionCollection.destroyAllExcept(userId, req.sessionID, sessionUtil.getSessionStore(req));
     }
+
+    await SessionCollection.deleteOne(req.sessionID);
     req.session.userId = undefined;
     res.status(200).json({
-      message: 'You have been logged out successfully.'
+      message: req.body.everywhere === true ? 'You have been logged out everywhere.' : 'You have been logged out successfully.'
+    });
+  }
+);
+
+/**
+ * Get the sessions the signed in user is logged in on.
+ *
+ * @name GET /api/users/sessions
+ *
+ * @return {SessionResponse[]} - The user's active sessions, most recently used first
+ * @throws {403} - If user is not logged in
+ */
+router.get(
+  '/sessions',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
+  ],
+  async (req: Request, res: Response) => {
+    const sessions = await SessionCollection.findAllByUserId(req.session.userId, sessionUtil.getSessionStore(req));
+    res.status(200).json(sessions.map(session => sessionUtil.constructSessionResponse(session, req.sessionID)));
+  }
+);
+
+/**
+ * Log out of every session but the current one.
+ *
+ * @name DELETE /api/users/sessions
+ *
+ * @return {string} - A success message
+ * @throws {403} - If user is not logged in
+ */
+router.delete(
+  '/sessions',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const count = await SessionCollection.destroyAllExcept(userId, req.sessionID, sessionUtil.getSessionStore(req));
+    res.status(200).json({
+      message: `You have been logged out of ${count} other session${count === 1 ? '' : 's'}.`
+    });
+  }
+);
+
+/**
+ * Log out of one of the user's sessions. Ending the current session signs
+ * the user out.
+ *
+ * @name DELETE /api/users/sessions/:id
+ *
+ * @return {string} - A success message
+ * @throws {403} - If user is not logged in
+ * @throws {404} - If the session is not one of the user's sessions
+ */
+router.delete(
+  '/sessions/:id',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
+    sessionValidator.isSessionExists
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const session = await SessionCollection.findOne(userId, req.params.id);
+    if (session.sessionId === req.sessionID) {
+      // Destroying the current session here would be undone when express-session saves it
+      await SessionCollection.deleteOne(req.sessionID);
+      req.session.userId = undefined;
+    } else {
+      await SessionCollection.destroyOne(session, sessionUtil.getSessionStore(req));
+    }
+
+    res.status(200).json({
+      message: 'The session has been logged out.'
+    });
+  }
+);
+
+/**
+ * Get the signed in user's personal access tokens.
+ *
+ * @name GET /api/users/tokens
+ *
+ * @return {TokenResponse[]} - The user's tokens, most recent first
+ * @throws {403} - If user is not logged in, or used an access token
+ */
+router.get(
+  '/tokens',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
+  ],
+  async (req: Request, res: Response) => {
+    const tokens = await TokenCollection.findAllByUserId(req.session.userId);
+    res.status(200).json(tokens.map(tokenUtil.constructTokenResponse));
+  }
+);
+
+/**
+ * Create a personal access token. Scripts can send it in an
+ * Authorization: Bearer header instead of signing in.
+ *
+ * @name POST /api/users/tokens
+ *
+ * @param {string} name - The name of the token
+ * @param {string[]} scopes - read for GET requests, write for all others
+ * @return {TokenResponse} - The new token, with the secret token value, which is only shown this once
+ * @throws {403} - If user is not logged in, or used an access token
+ * @throws {400} - If the name is empty or the scopes are not a nonempty list of read and write
+ * @throws {413} - If the name is more than 50 characters long
+ */
+router.post(
+  '/tokens',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
+    tokenValidator.isValidTokenName,
+    tokenValidator.isValidTokenScopes
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const {token, secret} = await TokenCollection.addOne(userId, (req.body.name as string).trim(), req.body.scopes);
+    res.status(201).json({
+      message: 'Your access token was created. Copy it now, it will not be shown again.',
+      token: {...tokenUtil.constructTokenResponse(token), token: secret}
+    });
+  }
+);
+
+/**
+ * Revoke a personal access token.
+ *
+ * @name DELETE /api/users/tokens/:tokenId
+ *
+ * @return {string} - A success message
+ * @throws {403} - If user is not logged in, or used an access token
+ * @throws {404} - If the token is not one of the user's tokens
+ */
+router.delete(
+  '/tokens/:tokenId',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
+    tokenValidator.isTokenExists
+  ],
+  async (req: Request, res: Response) => {
+    await TokenCollection.deleteOne(req.params.tokenId);
+    res.status(200).json({
+      message: 'Your access token was revoked.'
+    });
+  }
+);
+
+/**
+ * Count the signed in user's unused recovery codes.
+ *
+ * @name GET /api/users/recovery-codes
+ *
+ * @return {{remaining: number}} - The number of unused recovery codes
+ * @throws {403} - If the user is not logged in
+ */
+router.get(
+  '/recovery-codes',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const remaining = await RecoveryCodeCollection.countRemaining(userId);
+    res.status(200).json({remaining});
+  }
+);
+
+/**
+ * Generate a new set of recovery codes for the signed in user. The codes
+ * they had before stop working.
+ *
+ * @name POST /api/users/recovery-codes
+ *
+ * @return {{recoveryCodes: string[]}} - The new recovery codes
+ * @throws {403} - If the user is not logged in or is using an access token
+ */
+router.post(
+  '/recovery-codes',
+  [
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const recoveryCodes = await RecoveryCodeCollection.replaceAll(userId);
+    res.status(201).json({
+      message: 'Your new recovery codes are ready. Your old ones no longer work.',
+      recoveryCodes
+    });
+  }
+);
+
+/**
+ * Set a new password with a recovery code, for someone who forgot theirs.
+ * The code is used up, every session signed in to the account is signed out,
+ * and every personal access token is revoked.
+ *
+ * @name POST /api/users/recover
+ *
+ * @param {string} username - The user's username
+ * @param {string} code - One of the user's recovery codes
+ * @param {string} password - The new password
+ * @return {{remaining: number}} - The number of recovery codes left
+ * @throws {403} - If a user is already signed in
+ * @throws {400} - If the username, code or password is missing or not in the correct format
+ * @throws {401} - If the username or recovery code is wrong
+ * @throws {429} - If there were too many failed attempts from this IP address or for this username
+ */
+router.post(
+  '/recover',
+  [
+    userValidator.isUserLoggedOut,
+    throttleValidator.isRecoveryNotThrottled,
+    userValidator.isValidPassword,
+    recoveryValidator.isValidRecoveryCode
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUsername(req.body.username);
+    if (!await RecoveryCodeCollection.useOne(user._id, req.body.code)) {
+      // Someone used the same code in the meantime
+      res.status(401).json({error: 'Invalid username or recovery code.'});
+      return;
+    }
+
+    await UserCollection.updateOne(user._id, {password: req.body.password as string});
+    await SessionCollection.destroyAllExcept(user._id, req.sessionID, sessionUtil.getSessionStore(req));
+    await TokenCollection.deleteMany(user._id);
+    await ThrottleCollection.reset('login', 'username', user.username);
+    await ThrottleCollection.reset('recover', 'username', user.username);
+    const remaining = await RecoveryCodeCollection.countRemaining(user._id);
+    res.status(200).json({
+      message: `Your password was reset, you were signed out everywhere and your access tokens were revoked. Sign in with your new password. You have ${remaining} recovery code${remaining === 1 ? '' : 's'} left.`,
+      remaining
     });
   }
 );
@@ -77,26 +497,32 @@ router.delete(
  *
  * @param {string} username - username of user
  * @param {string} password - user's password
- * @return {UserResponse} - The created user
+ * @return {{user: UserResponse, recoveryCodes: string[]}} - The created user, and the
+ *                      recovery codes that let them reset a forgotten password
  * @throws {403} - If there is a user already logged in
- * @throws {409} - If username is already taken
+ * @throws {409} - If username is already taken, now or as someone's old username
  * @throws {400} - If password or username is not in correct format
+ * @throws {429} - If too many accounts were created from this IP address recently
  *
  */
 router.post(
   '/',
   [
     userValidator.isUserLoggedOut,
+    throttleValidator.isSignUpNotThrottled,
     userValidator.isValidUsername,
     userValidator.isUsernameNotAlreadyInUse,
     userValidator.isValidPassword
   ],
   async (req: Request, res: Response) => {
     const user = await UserCollection.addOne(req.body.username, req.body.password);
+    const recoveryCodes = await RecoveryCodeCollection.replaceAll(user._id);
     req.session.userId = user._id.toString();
+    await SessionCollection.touch(req.sessionID, user._id, req.get('User-Agent'));
     res.status(201).json({
       message: `Your account was created successfully. You have been logged in as ${user.username}`,
-      user: util.constructUserResponse(user)
+      user: util.constructUserResponse(user),
+      recoveryCodes
     });
   }
 );
@@ -110,21 +536,20 @@ router.post(
  * @param {string} password - The user's new password
  * @return {UserResponse} - The updated user
  * @throws {403} - If user is not logged in
- * @throws {409} - If username already taken
+ * @throws {409} - If username already taken, now or as someone else's old username
  * @throws {400} - If username or password are not of the correct format
  */
 router.put(
   '/',
   [
     userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken,
     userValidator.isValidUsername,
     userValidator.isUsernameNotAlreadyInUse,
     userValidator.isValidPassword
   ],
   async (req: Request, res: Response) => {
-    console.log('this works?');
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    console.log('this works?');
     const user = await UserCollection.updateOne(userId, req.body);
     res.status(200).json({
       message: 'Your profile was updated successfully.',
@@ -134,14 +559,13 @@ router.put(
 );
 
 /**
- * Update a user's profile (Anonymous mode).
+ * Toggle a user's NighthawkMode, which makes their new freets and comments
+ * anonymous by default. Each post can still override it.
  *
- * @name PUT /api/users/anonymous
+ * @name DELETE /api/users/anonymous
  *
  * @return {UserResponse} - The updated user
  * @throws {403} - If user is not logged in
- * @throws {409} - If username already taken
- * @throws {400} - If username or password are not of the correct format
  */
  router.delete(
   '/anonymous',
@@ -149,19 +573,19 @@ router.put(
     userValidator.isUserLoggedIn,
   ],
   async (req: Request, res: Response) => {
-    console.log('this works?');
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    console.log('this works?');
     const user = await UserCollection.updateAnon(userId);
     res.status(200).json({
-      message: 'You entered/exited anonymous mode.',
+      message: user.nighthawkMode ? 'NighthawkMode is now on.' : 'NighthawkMode is now off.',
       user: util.constructUserResponse(user)
     });
   }
 );
 
 /**
- * Delete a user.
+ * Delete a user. The account is hidden right away but only purged, together
+ * with everything that refers to it, once the grace period is over. Signing
+ * back in before then restores it.
  *
  * @name DELETE /api/users
  *
@@ -171,41 +595,80 @@ router.put(
 router.delete(
   '/',
   [
-    userValidator.isUserLoggedIn
+    userValidator.isUserLoggedIn,
+    tokenValidator.isNotUsingAccessToken
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    await UserCollection.deleteOne(userId);
-    await FreetCollection.deleteMany(userId);
+    const user = await UserCollection.softDeleteOne(userId);
+    const purgeDate = UserCollection.getPurgeDate(user);
+    await SessionCollection.destroyAllExcept(userId, req.sessionID, sessionUtil.getSessionStore(req));
+    await SessionCollection.deleteOne(req.sessionID);
     req.session.userId = undefined;
     res.status(200).json({
-      message: 'Your account has been deleted successfully.'
+      message: `Your account will be deleted on ${purgeDate.toDateString()}. Sign in before then to restore it.`,
+      purgeDate: purgeDate.toISOString()
     });
   }
 );
 
 /**
- * Add a follower for the user.
+ * Toggle whether a user's account is private. People have to ask to follow
+ * a private account, and only approved followers see its freets. Making the
+ * account public again approves every pending follow request.
+ *
+ * @name PUT /api/users/private
+ *
+ * @return {UserResponse} - The updated user
+ * @throws {403} - If user is not logged in
+ */
+router.put(
+  '/private',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const user = await UserCollection.updatePrivacy(userId);
+    if (!user.private) {
+      await FollowCollection.acceptAll(user._id);
+    }
+
+    res.status(200).json({
+      message: user.private ? 'Your account is now private.' : 'Your account is now public.',
+      user: util.constructUserResponse(user)
+    });
+  }
+);
+
+/**
+ * Follow a user. Following a private account sends a follow request that
+ * the account owner has to approve first.
  *
  * @name PUT /api/users/followers
  *
- * @param {string} username - The to-be-followed user's username
- * @throws {403} - if the user is not logged in
- * @throws {409} - if the user does not exist
- * @throws {400} - if the user is already following that person
+ * @param {string} user - The to-be-followed user's username
+ * @return {FollowResponse} - The new follow, or the pending follow request
+ * @throws {403} - if the user is not logged in or the user to follow blocked them
+ * @throws {404} - if the user to follow does not exist
+ * @throws {400} - if the user tries to follow themselves
+ * @throws {409} - if the user is already following that person
  */
- router.put(
+router.put(
   '/followers',
   [
     userValidator.isUserLoggedIn,
-    userValidator.isValidUsername,
+    followValidator.isValidFollowee,
+    blockValidator.isNotBlockedByUser,
+    followValidator.isNotAlreadyFollowing
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-
-    await UserCollection.addToFollowList(userId, req.body.user);
+    const followee = await UserCollection.findOneByUsername(req.body.user);
+    const follow = await FollowCollection.addOne(userId, followee._id, followee.private ? 'pending' : 'accepted');
     res.status(200).json({
-      message: 'Added to following list.'
+      message: followee.private ? `You asked to follow ${followee.username}.` : `You are now following ${followee.username}.`,
+      follow: followUtil.constructFollowResponse(follow)
     });
   }
 );
@@ -235,25 +698,100 @@ router.delete(
 );
 
 /**
- * Remove a follower.
+ * Unfollow a user, or take back a follow request.
  *
  * @name DELETE /api/users/followers
  *
+ * @param {string} user - The followed user's username
  * @return {string} - A success message
  * @throws {403} - if the user is not logged in
- * @throws {409} - if the user does not exist
- * @throws {400} - if the user is already not following that person
+ * @throws {404} - if the user does not exist or is not being followed
  */
- router.delete(
+router.delete(
   '/followers',
+  [
+    userValidator.isUserLoggedIn,
+    followValidator.isValidFollowee,
+    followValidator.isFollowing
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const followee = await UserCollection.findOneByUsername(req.body.user);
+    const follow = await FollowCollection.findOne(userId, followee._id);
+    await FollowCollection.deleteOne(userId, followee._id);
+    res.status(200).json({
+      message: follow.status === 'pending' ? `You took back your request to follow ${followee.username}.` : `You are no longer following ${followee.username}.`
+    });
+  }
+);
+
+/**
+ * Get the follow requests waiting for the signed in user's approval.
+ *
+ * @name GET /api/users/followers/requests
+ *
+ * @return {FollowResponse[]} - The pending follow requests, oldest first
+ * @throws {403} - if the user is not logged in
+ */
+router.get(
+  '/followers/requests',
   [
     userValidator.isUserLoggedIn
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    await UserCollection.removeFromFollowList(userId, req.body.user);
+    const requests = await FollowCollection.findRequests(userId);
+    res.status(200).json(requests.map(followUtil.constructFollowResponse));
+  }
+);
+
+/**
+ * Approve a follow request.
+ *
+ * @name PUT /api/users/followers/requests/:username
+ *
+ * @return {FollowResponse} - The accepted follow
+ * @throws {403} - if the user is not logged in
+ * @throws {404} - if the user named by username did not ask to follow the user
+ */
+router.put(
+  '/followers/requests/:username',
+  [
+    userValidator.isUserLoggedIn,
+    followValidator.isFollowRequestExists
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const follower = await UserCollection.findOneByUsername(req.params.username);
+    const follow = await FollowCollection.acceptOne(follower._id, userId);
+    res.status(200).json({
+      message: `${follower.username} now follows you.`,
+      follow: followUtil.constructFollowResponse(follow)
+    });
+  }
+);
+
+/**
+ * Turn down a follow request.
+ *
+ * @name DELETE /api/users/followers/requests/:username
+ *
+ * @return {string} - A success message
+ * @throws {403} - if the user is not logged in
+ * @throws {404} - if the user named by username did not ask to follow the user
+ */
+router.delete(
+  '/followers/requests/:username',
+  [
+    userValidator.isUserLoggedIn,
+    followValidator.isFollowRequestExists
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const follower = await UserCollection.findOneByUsername(req.params.username);
+    await FollowCollection.deleteOne(follower._id, userId);
     res.status(200).json({
-      message: 'Successfully removed the follower.'
+      message: `You turned down ${follower.username}'s request to follow you.`
     });
   }
 );
@@ -275,7 +813,6 @@ router.delete(
   ],
   async (req: Request, res: Response) => {
     const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
-    console.log('we got here?');
     await UserCollection.removeFromSeenList(userId, req.params.freet);
     res.status(200).json({
       message: 'Successfully removed the seen post.'
@@ -284,28 +821,288 @@ router.delete(
 );
 
 /**
- * Change a user's reputation
+ * Download everything the signed in user has put into Fritter: their profile,
+ * freets and comments (with edit timestamps), follows, seen freets and votes.
  *
- * @name PUT /api/users/reputation
+ * @name GET /api/users/export
  *
- * @param {string} username - The user's username
- * @param {string} repChange - the amount to change the reputation by
- * @return {UserResponse} - An object with user's details
- * @throws {403} - If user does not exist
+ * @return {ExportResponse} - The export, sent as a JSON file attachment
+ * @throws {403} - if the user is not logged in
+ */
+router.get(
+  '/export',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUserId(req.session.userId);
+    const [freets, comments, following, upvotedFreets, votedComments] = await Promise.all([
+      FreetCollection.findAllByAuthorId(user._id),
+      CommentCollection.findAllByAuthorId(user._id),
+      FollowCollection.findFollowing(user._id),
+      FreetCollection.findAllUpvotedBy(user._id),
+      CommentCollection.findAllVotedBy(user._id)
+    ]);
+    res.attachment(`fritter-${user.username}.json`);
+    res.status(200).json(util.constructExportResponse(user, {freets, comments, following, upvotedFreets, votedComments}));
+  }
+);
+
+/**
+ * Get the users the signed in user blocked.
  *
+ * @name GET /api/users/blocks
+ *
+ * @return {BlockResponse[]} - The user's blocks, most recent first
+ * @throws {403} - if the user is not logged in
  */
- router.put(
-  '/reputation',
+router.get(
+  '/blocks',
   [
-    userValidator.isValidUsername,
-    userValidator.isValidNumber
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const blocks = await BlockCollection.findAllByBlocker(req.session.userId, 'block');
+    res.status(200).json(blocks.map(blockUtil.constructBlockResponse));
+  }
+);
+
+/**
+ * Block a user. Their posts are hidden from the user's feeds, and they can no
+ * longer follow the user, comment on their freets or mention them. Any follows
+ * between the two users are removed.
+ *
+ * @name PUT /api/users/blocks
+ *
+ * @param {string} user - The username of the user to block
+ * @return {BlockResponse} - The new block
+ * @throws {403} - if the user is not logged in
+ * @throws {404} - if the user to block does not exist
+ * @throws {400} - if the user tries to block themselves
+ * @throws {409} - if the user already blocked that person
+ */
+router.put(
+  '/blocks',
+  [
+    userValidator.isUserLoggedIn,
+    blockValidator.isValidBlockTarget,
+    blockValidator.isNotAlreadyBlocked
+  ],
+  async (req: Request, res: Response) => {
+    const userId = (req.session.userId as string) ?? ''; // Will not be an empty string since its validated in isUserLoggedIn
+    const blocked = await UserCollection.findOneByUsername(req.body.user);
+    const block = await BlockCollection.addOne(userId, blocked._id, 'block');
+    await FollowCollection.deleteOne(userId, blocked._id);
+    await FollowCollection.deleteOne(blocked._id, userId);
+    res.status(200).json({
+      message: `You blocked ${blocked.username}.`,
+      block: blockUtil.constructBlockResponse(block)
+    });
+  }
+);
+
+/**
+ * Unblock a user.
+ *
+ * @name DELETE /api/users/blocks
+ *
+ * @param {string} user - The username of the user to unblock
+ * @return {string} - A success message
+ * @throws {403} - if the user is not logged in
+ * @throws {404} - if the user does not exist or is not blocked
+ */
+router.delete(
+  '/blocks',
+  [
+    userValidator.isUserLoggedIn,
+    blockValidator.isValidBlockTarget,
+    blockValidator.isBlocking
   ],
   async (req: Request, res: Response) => {
-    await UserCollection.updateUserReputation(req.body.username, Number(req.body.repChange));
+    const blocked = await UserCollection.findOneByUsername(req.body.user);
+    await BlockCollection.deleteOne(req.session.userId, blocked._id, 'block');
     res.status(200).json({
-      message: 'Successfully updated user reputation.'
+      message: `You unblocked ${blocked.username}.`
     });
   }
 );
 
+/**
+ * Get the users the signed in user muted.
+ *
+ * @name GET /api/users/mutes
+ *
+ * @return {BlockResponse[]} - The user's mutes, most recent first
+ * @throws {403} - if the user is not logged in
+ */
+router.get(
+  '/mutes',
+  [
+    userValidator.isUserLoggedIn
+  ],
+  async (req: Request, res: Response) => {
+    const mutes = await BlockCollection.findAllByBlocker(req.session.userId, 'mute');
+    res.status(200).json(mutes.map(blockUtil.constructBlockResponse));
+  }
+);
+
+/**
+ * Mute a user, hiding their posts from the user's feeds.
+ *
+ * @name PUT /api/users/mutes
+ *
+ * @param {string} user - The username of the user to mute
+ * @return {BlockResponse} - The new mute
+ * @throws {403} - if the user is not logged in
+ * @throws {404} - if the user to mute does not exist
+ * @throws {400} - if the user tries to mute themselves
+ * @throws {409} - if the user already muted that person
+ */
+router.put(
+  '/mutes',
+  [
+    userValidator.isUserLoggedIn,
+    blockValidator.isValidBlockTarget,
+    blockValidator.isNotAlreadyMuted
+  ],
+  async (req: Request, res: Response) => {
+    const muted = await UserCollection.findOneByUsername(req.body.user);
+    const mute = await BlockCollection.addOne(req.session.userId, muted._id, 'mute');
+    res.status(200).json({
+      message: `You muted ${muted.username}.`,
+      mute: blockUtil.constructBlockResponse(mute)
+    });
+  }
+);
+
+/**
+ * Unmute a user.
+ *
+ * @name DELETE /api/users/mutes
+ *
+ * @param {string} user - The username of the user to unmute
+ * @return {string} - A success message
+ * @throws {403} - if the user is not logged in
+ * @throws {404} - if the user does not exist or is not muted
+ */
+router.delete(
+  '/mutes',
+  [
+    userValidator.isUserLoggedIn,
+    blockValidator.isValidBlockTarget,
+    blockValidator.isMuting
+  ],
+  async (req: Request, res: Response) => {
+    const muted = await UserCollection.findOneByUsername(req.body.user);
+    await BlockCollection.deleteOne(req.session.userId, muted._id, 'mute');
+    res.status(200).json({
+      message: `You unmuted ${muted.username}.`
+    });
+  }
+);
+
+/**
+ * Get the followers of a user.
+ *
+ * @name GET /api/users/:username/followers
+ *
+ * @return {{count: number, followers: FollowResponse[]}} - The number of followers
+ *                      and their follows, most recent first
+ * @throws {404} - If no user has the given username
+ */
+router.get(
+  '/:username/followers',
+  [
+    userValidator.isUserExists
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const followers = await FollowCollection.findFollowers(user._id);
+    res.status(200).json({
+      count: followers.length,
+      followers: followers.map(followUtil.constructFollowResponse)
+    });
+  }
+);
+
+/**
+ * Get the users a user follows.
+ *
+ * @name GET /api/users/:username/following
+ *
+ * @return {{count: number, following: FollowResponse[]}} - The number of followed
+ *                      users and their follows, most recent first
+ * @throws {404} - If no user has the given username
+ */
+router.get(
+  '/:username/following',
+  [
+    userValidator.isUserExists
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const following = await FollowCollection.findFollowing(user._id);
+    res.status(200).json({
+      count: following.length,
+      following: following.map(followUtil.constructFollowResponse)
+    });
+  }
+);
+
+/**
+ * Get the ledger of changes a user's reputation is computed from. Which post
+ * each change came from is only shown to the user themself.
+ *
+ * @name GET /api/users/:username/reputation/history
+ *
+ * @return {{reputation: number, history: ReputationEventResponse[]}} - The user's
+ *                      reputation and the changes to it, most recent first
+ * @throws {404} - If no user has the given username
+ */
+router.get(
+  '/:username/reputation/history',
+  [
+    userValidator.isUserExists
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    const history = await ReputationCollection.findAllByUserId(user._id);
+    const isOwner = user._id.toString() === req.session.userId;
+    res.status(200).json({
+      reputation: history.reduce((total, event) => total + event.change, 0),
+      history: history.map(event => reputationUtil.constructReputationEventResponse(event, isOwner))
+    });
+  }
+);
+
+/**
+ * Get a user's public profile. This route is matched last so that it doesn't
+ * shadow the other routes under /api/users.
+ *
+ * @name GET /api/users/:username
+ *
+ * @return {ProfileResponse} - The user's join date, reputation, freet and follow
+ *                             counts, and their most recent non-anonymous freets
+ *                             (none if the account is private and hasn't approved
+ *                             the signed in user)
+ * @throws {404} - If no user has the given username
+ */
+router.get(
+  '/:username',
+  [
+    userValidator.isUserExists
+  ],
+  async (req: Request, res: Response) => {
+    const user = await UserCollection.findOneByUsernameOrAlias(req.params.username);
+    // Older freets are paged through with GET /api/freets?author=username
+    const page = {limit: feedUtil.DEFAULT_PAGE_SIZE};
+    const {items: freets} = feedUtil.constructFeedPage(await FreetCollection.findAllByUsername(user.username, page, req.session.userId), page);
+    const freetCount = await FreetCollection.countByAuthorId(user._id);
+    const followerCount = await FollowCollection.countFollowers(user._id);
+    const followingCount = await FollowCollection.countFollowing(user._id);
+    const reputation = await ReputationCollection.getReputation(user._id);
+    res.status(200).json(util.constructProfileResponse(user, freets, {reputation, freetCount, followerCount, followingCount}));
+  }
+);
+
 export {router as userRouter};
@@ -1,14 +1,78 @@
 import type {HydratedDocument} from 'mongoose';
+import {randomBytes, scrypt, timingSafeEqual} from 'crypto';
 import moment from 'moment';
-import type {User} from './model';
+import type {Role, User} from './model';
+import type {Freet} from '../freet/model';
+import type {Comment} from '../comments/model';
+import type {Follow, PopulatedFollow} from '../follow/model';
+import type {FreetResponse} from '../freet/util';
+import {constructFreetResponse} from '../freet/util';
 
 // Update this if you add a property to the User type!
 type UserResponse = {
   _id: string;
   username: string;
   dateJoined: string;
+  anonName: string;
+  nighthawkMode: boolean;
+  private: boolean;
+  role: Role;
+  twoFactorEnabled: boolean;
 };
 
+// What anyone can see about a user on their profile page
+type ProfileResponse = {
+  username: string;
+  dateJoined: string;
+  private: boolean;
+  reputation: number;
+  freetCount: number;
+  followerCount: number;
+  followingCount: number;
+  recentFreets: FreetResponse[];
+};
+
+// Everything a user has put into Fritter, as downloaded from their account page
+type ExportResponse = {
+  exportedAt: string;
+  profile: {
+    username: string;
+    dateJoined: string;
+    anonName: string;
+    nighthawkMode: boolean;
+    private: boolean;
+  };
+  freets: Array<{
+    _id: string;
+    content: string;
+    anonymous: boolean;
+    upvotes: number;
+    dateCreated: string;
+    dateModified: string;
+  }>;
+  comments: Array<{
+    _id: string;
+    freetId: string;
+    content: string;
+    anonymous: boolean;
+    upvotes: number;
+    dateCreated: string;
+    dateModified: string;
+  }>;
+  following: Array<{
+    username: string;
+    dateFollowed: string;
+  }>;
+  seen: string[];
+  votes: {
+    freets: Array<{freetId: string; vote: number}>;
+    comments: Array<{commentId: string; vote: number}>;
+  };
+};
+
+// How many of a user's latest freets are shown on their profile
+const RECENT_FREETS_LIMIT = 10;
+
 /**
  * Encode a date as an unambiguous string
  *
@@ -20,7 +84,7 @@ const formatDate = (date: Date): string => moment(date).format('MMMM Do YYYY, h:
 /**
  * Transform a raw User object from the database into an object
  * with all the information needed by the frontend
- * (in this case, removing the password for security)
+ * (in this case, removing the password and two-factor secrets for security)
  *
  * @param {HydratedDocument<User>} user - A user object
  * @returns {UserResponse} - The user object without the password
@@ -32,13 +96,178 @@ const constructUserResponse = (user: HydratedDocument<User>): UserResponse => {
     })
   };
   delete userCopy.password;
+  delete userCopy.twoFactorSecret;
+  delete userCopy.twoFactorPendingSecret;
+  delete userCopy.twoFactorLastStep;
   return {
     ...userCopy,
     _id: userCopy._id.toString(),
-    dateJoined: formatDate(user.dateJoined)
+    dateJoined: formatDate(user.dateJoined),
+    twoFactorEnabled: Boolean(user.twoFactorSecret)
   };
 };
 
+/**
+ * Build the public profile of a user. Only public information goes in here,
+ * so the user's pseudonym and anonymous freets must never be passed in.
+ *
+ * @param {HydratedDocument<User>} user - A user object
+ * @param {HydratedDocument<Freet>[]} freets - The user's non-anonymous freets, most recent first
+ * @param {Object} stats - The user's reputation, freet count, follower count and following count
+ * @returns {ProfileResponse} - The profile formatted for the frontend
+ */
+const constructProfileResponse = (
+  user: HydratedDocument<User>,
+  freets: Array<HydratedDocument<Freet>>,
+  stats: {reputation: number; freetCount: number; followerCount: number; followingCount: number}
+): ProfileResponse => ({
+  username: user.username,
+  dateJoined: formatDate(user.dateJoined),
+  private: Boolean(user.private),
+  ...stats,
+  recentFreets: freets.slice(0, RECENT_FREETS_LIMIT).map(constructFreetResponse)
+});
+
+/**
+ * Build a user's data export. Dates are ISO 8601 strings so the export can be
+ * read by other programs.
+ *
+ * @param {HydratedDocument<User>} user - The exporting user
+ * @param {Object} data - Everything else to export
+ * @param {HydratedDocument<Freet>[]} data.freets - All of the user's freets, including anonymous ones
+ * @param {HydratedDocument<Comment>[]} data.comments - All of the user's comments, including anonymous ones
+ * @param {HydratedDocument<Follow>[]} data.following - The user's follows, with followees populated
+ * @param {HydratedDocument<Freet>[]} data.upvotedFreets - The freets the user upvoted
+ * @param {HydratedDocument<Comment>[]} data.votedComments - The comments the user upvoted or downvoted
+ * @returns {ExportResponse} - The export to send as a file
+ */
+const constructExportResponse = (user: HydratedDocument<User>, data: {
+  freets: Array<HydratedDocument<Freet>>;
+  comments: Array<HydratedDocument<Comment>>;
+  following: Array<HydratedDocument<Follow>>;
+  upvotedFreets: Array<HydratedDocument<Freet>>;
+  votedComments: Array<HydratedDocument<Comment>>;
+}): ExportResponse => ({
+  exportedAt: new Date().toISOString(),
+  profile: {
+    username: user.username,
+    dateJoined: user.dateJoined.toISOString(),
+    anonName: user.anonName,
+    nighthawkMode: user.nighthawkMode,
+    private: Boolean(user.private)
+  },
+  freets: data.freets.map(freet => ({
+    _id: freet._id.toString(),
+    content: freet.content,
+    anonymous: freet.anonymous,
+    upvotes: freet.upvotes,
+    dateCreated: freet.dateCreated.toISOString(),
+    dateModified: freet.dateModified.toISOString()
+  })),
+  comments: data.comments.map(comment => ({
+    _id: comment._id.toString(),
+    freetId: comment.freetId.toString(),
+    content: comment.content,
+    anonymous: comment.anonymous,
+    upvotes: comment.upvotes,
+    dateCreated: comment.dateCreated.toISOString(),
+    dateModified: comment.dateModified.toISOString()
+  })),
+  following: data.following.map(follow => {
+    const {followeeId, dateCreated}: PopulatedFollow = follow.toObject();
+    return {username: followeeId.username, dateFollowed: dateCreated.toISOString()};
+  }),
+  seen: user.seen.map(freetId => String(freetId)),
+  votes: {
+    freets: data.upvotedFreets.map(freet => ({freetId: freet._id.toString(), vote: 1})),
+    comments: data.votedComments.map(comment => ({
+      commentId: comment._id.toString(),
+      vote: comment.upvoters.some(voterId => voterId.equals(user._id)) ? 1 : -1
+    }))
+  }
+});
+
+// Stored password hashes look like `scrypt$<salt>$<hash>`, both hex encoded
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Derive a scrypt key from a password and salt
+ *
+ * @param {string} password - The plaintext password
+ * @param {Buffer} salt - The salt to derive the key with
+ * @returns {Promise<Buffer>} - The derived key
+ */
+const deriveKey = async (password: string, salt: Buffer): Promise<Buffer> => new Promise((resolve, reject) => {
+  scrypt(password, salt, KEY_LENGTH, (err, key) => {
+    if (err) {
+      reject(err);
+    } else {
+      resolve(key);
+    }
+  });
+});
+
+/**
+ * Check whether a stored password is already a salted hash, as opposed to
+ * a plaintext password left over from before passwords were hashed
+ *
+ * @param {string} stored - The password as stored on the user document
+ * @returns {boolean} - true if the stored password is a hash
+ */
+const isPasswordHashed = (stored: string): boolean => {
+  const parts = stored.split('$');
+  return parts.length === 3 && parts[0] === HASH_PREFIX;
+};
+
+/**
+ * Hash a password with a fresh random salt
+ *
+ * @param {string} password - The plaintext password
+ * @returns {Promise<string>} - The salted hash to store on the user document
+ */
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return [HASH_PREFIX, salt.toString('hex'), key.toString('hex')].join('$');
+};
+
+/**
+ * Check a plaintext password against a stored one. Plaintext passwords
+ * stored before hashing was introduced are compared directly.
+ *
+ * @param {string} password - The plaintext password to check
+ * @param {string} stored - The password as stored on the user document
+ * @returns {Promise<boolean>} - true if the password matches
+ */
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!isPasswordHashed(stored)) {
+    const given = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  const [, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'hex');
+  const key = await deriveKey(password, Buffer.from(salt, 'hex'));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+/**
+ * Check whether a user is currently suspended
+ *
+ * @param {User} user - A user object
+ * @returns {boolean} - true if the user's suspension has not ended yet
+ */
+const isSuspended = (user: User): boolean => Boolean(user.suspendedUntil) && user.suspendedUntil > new Date();
+
 export {
-  constructUserResponse
+  constructUserResponse,
+  constructProfileResponse,
+  constructExportResponse,
+  isPasswordHashed,
+  hashPassword,
+  verifyPassword,
+  isSuspended
 };